@@ -0,0 +1,74 @@
+import type { ProviderResponse } from '../providers';
+
+/**
+ * Supported response cache types
+ */
+export type CacheType = 'lru' | 'redis' | string;
+
+/**
+ * Base configuration for all response cache backends
+ */
+export interface BaseCacheConfig {
+  /**
+   * The type of cache backend
+   */
+  type: CacheType;
+  /**
+   * Default time to live for cached responses, in seconds (optional)
+   */
+  ttl?: number;
+}
+
+/**
+ * Base interface for response cache backends
+ */
+export interface ICache {
+  /**
+   * Get a cached response, or null when missing or expired
+   */
+  get(key: string): Promise<ProviderResponse | null>;
+
+  /**
+   * Store a response, optionally overriding the default TTL (seconds)
+   */
+  set(key: string, response: ProviderResponse, ttl?: number): Promise<void>;
+
+  /**
+   * Remove a cached response
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Remove all cached responses
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Close/cleanup the cache connection
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Abstract base class for response cache backends
+ */
+export abstract class BaseCache implements ICache {
+  protected config: BaseCacheConfig;
+
+  constructor(config: BaseCacheConfig) {
+    this.config = config;
+  }
+
+  abstract get(key: string): Promise<ProviderResponse | null>;
+  abstract set(key: string, response: ProviderResponse, ttl?: number): Promise<void>;
+  abstract delete(key: string): Promise<void>;
+  abstract clear(): Promise<void>;
+  abstract close(): Promise<void>;
+
+  /**
+   * Get the cache type
+   */
+  getType(): CacheType {
+    return this.config.type;
+  }
+}
@@ -0,0 +1,92 @@
+import { ICache, BaseCacheConfig, CacheType } from './BaseCache';
+import { LRUCache, LRUCacheConfig } from './LRUCache';
+import { RedisCache, RedisCacheConfig } from './RedisCache';
+
+/**
+ * Union type of all response cache configurations
+ */
+export type CacheConfig = LRUCacheConfig | RedisCacheConfig;
+
+/**
+ * Cache factory for creating and managing response cache backends
+ */
+export class CacheFactory {
+  private static caches = new Map<CacheType, new (config: any) => ICache>();
+  private static shared = new Map<string, ICache>();
+
+  // Register built-in cache backends
+  static {
+    this.register('lru', LRUCache);
+    this.register('redis', RedisCache);
+  }
+
+  /**
+   * Register a new cache type
+   */
+  static register<T extends BaseCacheConfig>(
+    type: CacheType,
+    CacheClass: new (config: T) => ICache
+  ): void {
+    this.caches.set(type, CacheClass as any);
+  }
+
+  /**
+   * Create a cache instance from configuration
+   */
+  static create(config: CacheConfig): ICache {
+    const CacheClass = this.caches.get(config.type);
+
+    if (!CacheClass) {
+      throw new Error(
+        `Cache type '${config.type}' is not registered. Available types: ${Array.from(this.caches.keys()).join(', ')}`
+      );
+    }
+
+    return new CacheClass(config);
+  }
+
+  /**
+   * Get the process-wide cache instance for a configuration
+   * Identical configurations share one backend, so agents and OfficeLLM instances share hits
+   */
+  static getShared(config: CacheConfig): ICache {
+    const key = JSON.stringify(config);
+    let cache = this.shared.get(key);
+    if (!cache) {
+      cache = this.create(config);
+      this.shared.set(key, cache);
+    }
+    return cache;
+  }
+
+  /**
+   * Get all registered cache types
+   */
+  static getRegisteredTypes(): CacheType[] {
+    return Array.from(this.caches.keys());
+  }
+
+  /**
+   * Check if a cache type is registered
+   */
+  static isRegistered(type: CacheType): boolean {
+    return this.caches.has(type);
+  }
+}
+
+/**
+ * Helper function to create a response cache
+ */
+export function createCache(config: CacheConfig): ICache {
+  return CacheFactory.create(config);
+}
+
+/**
+ * Helper function to register a custom response cache
+ */
+export function registerCache<T extends BaseCacheConfig>(
+  type: CacheType,
+  CacheClass: new (config: T) => ICache
+): void {
+  CacheFactory.register(type, CacheClass);
+}
@@ -0,0 +1,70 @@
+import { BaseCache, BaseCacheConfig } from './BaseCache';
+import type { ProviderResponse } from '../providers';
+
+/**
+ * Configuration for the in-process LRU cache
+ */
+export interface LRUCacheConfig extends BaseCacheConfig {
+  type: 'lru';
+  maxEntries?: number; // Optional limit on cached responses (default: 1000)
+}
+
+/**
+ * In-process least-recently-used response cache
+ * Entries are lost on restart
+ */
+export class LRUCache extends BaseCache {
+  // Map preserves insertion order, so the first key is always the least recently used
+  private entries: Map<string, { response: ProviderResponse; expiresAt?: number }> = new Map();
+  private maxEntries: number;
+
+  constructor(config: LRUCacheConfig) {
+    super(config);
+    this.maxEntries = config.maxEntries || 1000;
+  }
+
+  async get(key: string): Promise<ProviderResponse | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return structuredClone(entry.response);
+  }
+
+  async set(key: string, response: ProviderResponse, ttl?: number): Promise<void> {
+    const ttlSeconds = ttl ?? this.config.ttl;
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      response: structuredClone(response),
+      expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : undefined,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async close(): Promise<void> {
+    // Nothing to close for in-process storage
+  }
+}
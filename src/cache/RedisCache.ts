@@ -0,0 +1,92 @@
+import { BaseCache, BaseCacheConfig } from './BaseCache';
+import type { ProviderResponse } from '../providers';
+import { logger } from '../utils/logger';
+import { createRedisClient, RedisConnectionConfig } from '../utils/redis';
+
+/**
+ * Configuration for the Redis response cache
+ * Uses the same connection settings as RedisMemory
+ */
+export interface RedisCacheConfig extends BaseCacheConfig, RedisConnectionConfig {
+  type: 'redis';
+  host: string;
+  port: number;
+  tls?: boolean;
+  password?: string;
+  db?: number;
+  keyPrefix?: string;
+  ttl?: number; // Time to live in seconds (optional)
+}
+
+/**
+ * Redis response cache, shared across processes
+ */
+export class RedisCache extends BaseCache {
+  private client: any; // Redis client (any to avoid hard dependency)
+  private keyPrefix: string;
+  private connection: Promise<void> | null = null;
+  private redisConfig: RedisCacheConfig;
+
+  constructor(config: RedisCacheConfig) {
+    super(config);
+    this.redisConfig = config;
+    this.keyPrefix = config.keyPrefix || 'officellm:cache:';
+  }
+
+  async get(key: string): Promise<ProviderResponse | null> {
+    await this.connect();
+    const value = await this.client.get(this.keyPrefix + key);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async set(key: string, response: ProviderResponse, ttl?: number): Promise<void> {
+    await this.connect();
+    const ttlSeconds = ttl ?? this.config.ttl;
+    const value = JSON.stringify(response);
+
+    if (ttlSeconds) {
+      await this.client.setEx(this.keyPrefix + key, ttlSeconds, value);
+    } else {
+      await this.client.set(this.keyPrefix + key, value);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.connect();
+    await this.client.del(this.keyPrefix + key);
+  }
+
+  async clear(): Promise<void> {
+    await this.connect();
+    const keys = await this.client.keys(this.keyPrefix + '*');
+    if (keys.length > 0) {
+      await this.client.del(keys);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.connection) {
+      await this.connection;
+      await this.client.quit();
+      this.connection = null;
+    }
+  }
+
+  /**
+   * Connect lazily on first use
+   */
+  private connect(): Promise<void> {
+    if (!this.connection) {
+      logger.debug(
+        'REDIS',
+        `Connecting response cache to Redis at ${this.redisConfig.host}:${this.redisConfig.port}`
+      );
+      this.client = createRedisClient(this.redisConfig);
+      this.client.on('error', (err: Error) => {
+        logger.error('REDIS', 'Redis cache client error', err);
+      });
+      this.connection = this.client.connect().then(() => undefined);
+    }
+    return this.connection!;
+  }
+}
@@ -0,0 +1,9 @@
+// Base cache types and interfaces
+export { BaseCache, ICache, BaseCacheConfig, CacheType } from './BaseCache';
+
+// Cache implementations
+export { LRUCache, LRUCacheConfig } from './LRUCache';
+export { RedisCache, RedisCacheConfig } from './RedisCache';
+
+// Factory and helpers
+export { CacheFactory, CacheConfig, createCache, registerCache } from './CacheFactory';
@@ -0,0 +1,216 @@
+import { IProvider, ProviderMessage, ProviderResponse, ToolDefinition } from '../providers';
+import { countMessageTokens, countToolTokens, Tokenizer } from '../utils/tokens';
+
+/**
+ * Supported context strategy types
+ */
+export type ContextStrategyType = 'truncate' | 'keep-first-task' | 'summarize' | string;
+
+/**
+ * Base configuration for all context strategies
+ */
+export interface BaseContextStrategyConfig {
+  type: ContextStrategyType;
+}
+
+/**
+ * Context window of an agent with defaults and model limits applied
+ */
+export type ContextWindowLimit =
+  | { type: 'messages'; maxMessages: number }
+  | { type: 'tokens'; promptTokens: number; tokenizer: Tokenizer };
+
+/**
+ * Conversation to fit into an agent's context window
+ */
+export interface ContextRequest {
+  /**
+   * Full conversation history, starting with the system prompt
+   */
+  messages: ProviderMessage[];
+  /**
+   * Index of the user message carrying the task currently being executed
+   */
+  taskIndex: number;
+  window: ContextWindowLimit;
+  tools?: ToolDefinition[];
+  /**
+   * Provider of the agent, available to strategies that call a model
+   */
+  provider: IProvider;
+  /**
+   * Cancellation signal of the running task, to pass on to any model calls
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Messages to send, plus any tokens the strategy itself spent
+ */
+export interface ContextResult {
+  messages: ProviderMessage[];
+  usage?: ProviderResponse['usage'];
+  /**
+   * Provider that spent `usage`, when it is not the agent's own (used to price it)
+   */
+  provider?: IProvider;
+}
+
+/**
+ * Base interface for context strategies
+ */
+export interface IContextStrategy {
+  /**
+   * Select the messages to send for the next provider call
+   */
+  apply(request: ContextRequest): Promise<ContextResult>;
+}
+
+/**
+ * Messages kept and evicted when fitting a conversation into its window
+ */
+export interface ContextSelection {
+  /**
+   * Leading system messages
+   */
+  system: ProviderMessage[];
+  /**
+   * Remaining messages that fit, in conversation order
+   */
+  kept: ProviderMessage[];
+  /**
+   * Messages that did not fit, in conversation order
+   */
+  evicted: ProviderMessage[];
+}
+
+/**
+ * Abstract base class for context strategies
+ *
+ * Conversations are trimmed in whole turns: a user message, or an assistant message
+ * together with the tool results answering its tool calls. A tool call is therefore
+ * never sent without its result, or a result without its call. The system prompt,
+ * the current task message and the newest turn are always kept.
+ */
+export abstract class BaseContextStrategy implements IContextStrategy {
+  protected config: BaseContextStrategyConfig;
+
+  constructor(config: BaseContextStrategyConfig) {
+    this.config = config;
+  }
+
+  abstract apply(request: ContextRequest): Promise<ContextResult>;
+
+  /**
+   * Get the strategy type
+   */
+  getType(): ContextStrategyType {
+    return this.config.type;
+  }
+
+  /**
+   * Indexes of messages that must be kept besides the system prompt and the newest turn
+   */
+  protected getPinnedIndexes(request: ContextRequest): number[] {
+    return [request.taskIndex];
+  }
+
+  /**
+   * Keep the newest turns that fit the window after pinned messages and `reserved` units
+   * (messages or tokens, depending on the window) are accounted for
+   */
+  protected select(request: ContextRequest, reserved: number = 0): ContextSelection {
+    const { messages, window, tools } = request;
+
+    let systemCount = 0;
+    while (systemCount < messages.length && messages[systemCount].role === 'system') {
+      systemCount++;
+    }
+
+    const turns = splitTurns(messages, systemCount);
+    const pinnedIndexes = this.getPinnedIndexes(request);
+    const isPinned = (turn: ContextTurn) =>
+      pinnedIndexes.some(index => index >= turn.start && index < turn.start + turn.messages.length);
+
+    const size = (turnMessages: ProviderMessage[]) => measure(turnMessages, window);
+    const capacity =
+      window.type === 'messages'
+        ? window.maxMessages
+        : window.promptTokens - countToolTokens(tools, window.tokenizer);
+
+    let used = reserved + size(messages.slice(0, systemCount));
+    for (const turn of turns) {
+      if (isPinned(turn)) {
+        used += size(turn.messages);
+      }
+    }
+
+    // Walk back from the newest turn; the newest turn is always sent
+    const keep = new Set<ContextTurn>(turns.filter(isPinned));
+    let newest = true;
+    for (let i = turns.length - 1; i >= 0; i--) {
+      const turn = turns[i];
+      if (keep.has(turn)) {
+        continue;
+      }
+      const turnSize = size(turn.messages);
+      if (!newest && used + turnSize > capacity) {
+        break;
+      }
+      used += turnSize;
+      keep.add(turn);
+      newest = false;
+    }
+
+    return {
+      system: messages.slice(0, systemCount),
+      kept: turns.filter(turn => keep.has(turn)).flatMap(turn => turn.messages),
+      evicted: turns.filter(turn => !keep.has(turn)).flatMap(turn => turn.messages),
+    };
+  }
+}
+
+/**
+ * Messages that are kept or dropped together
+ */
+export interface ContextTurn {
+  /**
+   * Index of the first message of the turn in the conversation
+   */
+  start: number;
+  messages: ProviderMessage[];
+}
+
+/**
+ * Split a conversation into turns, starting after the leading system messages
+ */
+export function splitTurns(messages: ProviderMessage[], from: number = 0): ContextTurn[] {
+  const turns: ContextTurn[] = [];
+
+  for (let i = from; i < messages.length; i++) {
+    const message = messages[i];
+    const current = turns[turns.length - 1];
+
+    // Tool results belong to the assistant turn that requested them
+    if (message.role === 'tool' && current) {
+      current.messages.push(message);
+    } else {
+      turns.push({ start: i, messages: [message] });
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Size of messages in the units of a context window
+ */
+export function measure(messages: ProviderMessage[], window: ContextWindowLimit): number {
+  if (window.type === 'messages') {
+    return messages.length;
+  }
+  return messages.reduce(
+    (total, message) => total + countMessageTokens(message, window.tokenizer),
+    0
+  );
+}
@@ -0,0 +1,86 @@
+import {
+  IContextStrategy,
+  BaseContextStrategyConfig,
+  ContextStrategyType,
+} from './BaseContextStrategy';
+import { TruncateStrategy, TruncateStrategyConfig } from './TruncateStrategy';
+import { KeepFirstTaskStrategy, KeepFirstTaskStrategyConfig } from './KeepFirstTaskStrategy';
+import { SummarizeStrategy, SummarizeStrategyConfig } from './SummarizeStrategy';
+
+/**
+ * Union type of all context strategy configurations
+ */
+export type ContextStrategyConfig =
+  | TruncateStrategyConfig
+  | KeepFirstTaskStrategyConfig
+  | SummarizeStrategyConfig;
+
+/**
+ * Context strategy factory for creating and managing context strategies
+ */
+export class ContextStrategyFactory {
+  private static strategies = new Map<ContextStrategyType, new (config: any) => IContextStrategy>();
+
+  // Register built-in context strategies
+  static {
+    this.register('truncate', TruncateStrategy);
+    this.register('keep-first-task', KeepFirstTaskStrategy);
+    this.register('summarize', SummarizeStrategy);
+  }
+
+  /**
+   * Register a new context strategy type
+   */
+  static register<T extends BaseContextStrategyConfig>(
+    type: ContextStrategyType,
+    StrategyClass: new (config: T) => IContextStrategy
+  ): void {
+    this.strategies.set(type, StrategyClass as any);
+  }
+
+  /**
+   * Create a context strategy from configuration
+   */
+  static create(config: ContextStrategyConfig): IContextStrategy {
+    const StrategyClass = this.strategies.get(config.type);
+
+    if (!StrategyClass) {
+      throw new Error(
+        `Context strategy '${config.type}' is not registered. Available types: ${Array.from(this.strategies.keys()).join(', ')}`
+      );
+    }
+
+    return new StrategyClass(config);
+  }
+
+  /**
+   * Get all registered context strategy types
+   */
+  static getRegisteredTypes(): ContextStrategyType[] {
+    return Array.from(this.strategies.keys());
+  }
+
+  /**
+   * Check if a context strategy type is registered
+   */
+  static isRegistered(type: ContextStrategyType): boolean {
+    return this.strategies.has(type);
+  }
+}
+
+/**
+ * Helper function to create a context strategy
+ */
+export function createContextStrategy(config: ContextStrategyConfig): IContextStrategy {
+  return ContextStrategyFactory.create(config);
+}
+
+/**
+ * Helper function to register a custom context strategy
+ */
+export function registerContextStrategy<T extends BaseContextStrategyConfig>(
+  type: ContextStrategyType,
+  StrategyClass: new (config: T) => IContextStrategy
+): void {
+  ContextStrategyFactory.register(type, StrategyClass);
+}
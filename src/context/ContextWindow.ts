@@ -0,0 +1,47 @@
+import { IProvider } from '../providers';
+import { getModelCapabilities } from '../providers/ModelCapabilities';
+import { logger } from '../utils/logger';
+import { getTokenizer } from '../utils/tokens';
+import type { TokenContextWindow } from '../types';
+import { ContextWindowLimit } from './BaseContextStrategy';
+
+/**
+ * Default token budget when a model's context length is unknown
+ */
+const DEFAULT_CONTEXT_TOKENS = 8192;
+
+/**
+ * Resolve an agent's context window configuration against its provider
+ */
+export function resolveContextWindow(
+  contextWindow: number | TokenContextWindow | undefined,
+  provider: IProvider,
+  component: string
+): ContextWindowLimit {
+  if (typeof contextWindow !== 'object') {
+    return { type: 'messages', maxMessages: contextWindow || 10 }; // 10 messages
+  }
+
+  const capabilities = getModelCapabilities(provider.config.model);
+  let limit = contextWindow.limit ?? capabilities?.contextWindow;
+  if (!limit) {
+    logger.warn(
+      component,
+      `Unknown context length for model ${provider.config.model}, using ${DEFAULT_CONTEXT_TOKENS} tokens. Set contextWindow.limit to override.`
+    );
+    limit = DEFAULT_CONTEXT_TOKENS;
+  }
+
+  const reserve =
+    contextWindow.reserveOutputTokens ??
+    Math.min(
+      provider.config.maxTokens ?? capabilities?.maxOutputTokens ?? 0,
+      Math.floor(limit / 4)
+    );
+
+  return {
+    type: 'tokens',
+    promptTokens: limit - reserve,
+    tokenizer: getTokenizer(provider.config),
+  };
+}
@@ -0,0 +1,37 @@
+import {
+  BaseContextStrategy,
+  BaseContextStrategyConfig,
+  ContextRequest,
+  ContextResult,
+} from './BaseContextStrategy';
+
+/**
+ * Keep-first-task strategy configuration
+ */
+export interface KeepFirstTaskStrategyConfig extends BaseContextStrategyConfig {
+  type: 'keep-first-task';
+}
+
+/**
+ * Drops the oldest turns like `truncate`, but also keeps the first user message of the
+ * conversation. Useful for workers whose history spans several tasks, where the first
+ * assignment sets the context for the ones that follow.
+ */
+export class KeepFirstTaskStrategy extends BaseContextStrategy {
+  constructor(config: KeepFirstTaskStrategyConfig) {
+    super(config);
+  }
+
+  async apply(request: ContextRequest): Promise<ContextResult> {
+    const { system, kept, evicted } = this.select(request);
+    if (evicted.length === 0) {
+      return { messages: request.messages };
+    }
+    return { messages: [...system, ...kept] };
+  }
+
+  protected getPinnedIndexes(request: ContextRequest): number[] {
+    const firstTask = request.messages.findIndex(message => message.role === 'user');
+    return firstTask === -1 ? [request.taskIndex] : [firstTask, request.taskIndex];
+  }
+}
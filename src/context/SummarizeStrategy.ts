@@ -0,0 +1,154 @@
+import {
+  createProviderChain,
+  IProvider,
+  ProviderConfig,
+  ProviderMessage,
+  ProviderMiddleware,
+  ProviderResponse,
+} from '../providers';
+import { logger } from '../utils/logger';
+import { describePart } from '../utils/media';
+import {
+  BaseContextStrategy,
+  BaseContextStrategyConfig,
+  ContextRequest,
+  ContextResult,
+} from './BaseContextStrategy';
+
+/**
+ * Summarize strategy configuration
+ */
+export interface SummarizeStrategyConfig extends BaseContextStrategyConfig {
+  type: 'summarize';
+  /**
+   * Provider used to write summaries (default: the agent's own provider)
+   */
+  provider?: ProviderConfig;
+  /**
+   * Middleware run before the summary provider's own (set to the office's `middleware`
+   * when the strategy is configured on an agent)
+   */
+  middleware?: ProviderMiddleware[];
+  /**
+   * Token budget reserved for the summary message (default: 512)
+   */
+  summaryTokens?: number;
+  /**
+   * Instructions for the summarizing model
+   */
+  prompt?: string;
+}
+
+const DEFAULT_SUMMARY_PROMPT =
+  'You maintain a running summary of a conversation between an AI agent, its tools and the user. ' +
+  'Merge the previous summary with the new messages into one concise summary that keeps the facts, ' +
+  'decisions, tool results and open questions needed to continue the task. Respond with the summary only.';
+
+/**
+ * Running summary of the turns evicted from one conversation
+ */
+interface SummaryState {
+  summary: string;
+  summarized: WeakSet<ProviderMessage>;
+}
+
+/**
+ * Replaces evicted turns with a running summary written by a model
+ *
+ * The summary is sent as a system message after the system prompt and is updated
+ * whenever more turns fall out of the window. If summarizing fails, the previous
+ * summary is kept and the new turns are retried on the next call.
+ */
+export class SummarizeStrategy extends BaseContextStrategy {
+  protected config: SummarizeStrategyConfig;
+  private provider?: IProvider;
+  private states = new WeakMap<ProviderMessage[], SummaryState>();
+
+  constructor(config: SummarizeStrategyConfig) {
+    super(config);
+    this.config = config;
+    this.provider = config.provider
+      ? createProviderChain(config.provider, undefined, config.middleware)
+      : undefined;
+  }
+
+  async apply(request: ContextRequest): Promise<ContextResult> {
+    const state = this.states.get(request.messages);
+
+    // Nothing to summarize while the whole conversation fits
+    const untrimmed = this.select(request);
+    if (untrimmed.evicted.length === 0 && !state) {
+      return { messages: request.messages };
+    }
+
+    const summaryTokens = this.config.summaryTokens ?? 512;
+    const summarySize = request.window.type === 'messages' ? 1 : summaryTokens;
+    const { system, kept, evicted } = this.select(request, summarySize);
+
+    let usage: ProviderResponse['usage'];
+    const current = state ?? { summary: '', summarized: new WeakSet<ProviderMessage>() };
+    const unsummarized = evicted.filter(message => !current.summarized.has(message));
+
+    if (unsummarized.length > 0) {
+      try {
+        const response = await this.summarize(
+          request.provider,
+          current.summary,
+          unsummarized,
+          summaryTokens,
+          request.signal
+        );
+        current.summary = response.content;
+        unsummarized.forEach(message => current.summarized.add(message));
+        this.states.set(request.messages, current);
+        usage = response.usage;
+        logger.debug('CONTEXT', `Summarized ${unsummarized.length} evicted messages`);
+      } catch (error) {
+        logger.warn('CONTEXT', 'Failed to summarize evicted messages, truncating instead', error);
+      }
+    }
+
+    const summaryMessage: ProviderMessage[] = current.summary
+      ? [{ role: 'system', content: `Summary of the earlier conversation:\n${current.summary}` }]
+      : [];
+
+    return {
+      messages: [...system, ...summaryMessage, ...kept],
+      usage,
+      provider: this.provider,
+    };
+  }
+
+  private async summarize(
+    agentProvider: IProvider,
+    summary: string,
+    messages: ProviderMessage[],
+    summaryTokens: number,
+    signal?: AbortSignal
+  ): Promise<ProviderResponse> {
+    const transcript = messages
+      .map(message => {
+        const toolCalls = (message.toolCalls ?? [])
+          .map(call => `\n[calls ${call.function.name}(${call.function.arguments})]`)
+          .join('');
+        const parts = (message.parts ?? []).map(part => `\n${describePart(part)}`).join('');
+        return `${message.role}: ${message.content}${parts}${toolCalls}`;
+      })
+      .join('\n\n');
+
+    const provider = this.provider ?? agentProvider;
+    return provider.chat(
+      [
+        { role: 'system', content: this.config.prompt ?? DEFAULT_SUMMARY_PROMPT },
+        {
+          role: 'user',
+          content:
+            `Previous summary:\n${summary || '(none)'}\n\nNew messages:\n${transcript}\n\n` +
+            `Keep the summary under ${summaryTokens} tokens.`,
+        },
+      ],
+      undefined,
+      { signal }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import {
+  BaseContextStrategy,
+  BaseContextStrategyConfig,
+  ContextRequest,
+  ContextResult,
+} from './BaseContextStrategy';
+
+/**
+ * Truncate strategy configuration
+ */
+export interface TruncateStrategyConfig extends BaseContextStrategyConfig {
+  type: 'truncate';
+}
+
+/**
+ * Drops the oldest turns until the conversation fits (default strategy)
+ */
+export class TruncateStrategy extends BaseContextStrategy {
+  constructor(config: TruncateStrategyConfig) {
+    super(config);
+  }
+
+  async apply(request: ContextRequest): Promise<ContextResult> {
+    const { system, kept, evicted } = this.select(request);
+    if (evicted.length === 0) {
+      return { messages: request.messages };
+    }
+    return { messages: [...system, ...kept] };
+  }
+}
@@ -0,0 +1,29 @@
+// Base context strategy types and interfaces
+export {
+  BaseContextStrategy,
+  IContextStrategy,
+  BaseContextStrategyConfig,
+  ContextStrategyType,
+  ContextWindowLimit,
+  ContextRequest,
+  ContextResult,
+  ContextSelection,
+  ContextTurn,
+  splitTurns,
+  measure,
+} from './BaseContextStrategy';
+
+// Context strategy implementations
+export { TruncateStrategy, TruncateStrategyConfig } from './TruncateStrategy';
+export { KeepFirstTaskStrategy, KeepFirstTaskStrategyConfig } from './KeepFirstTaskStrategy';
+export { SummarizeStrategy, SummarizeStrategyConfig } from './SummarizeStrategy';
+
+// Factory and helpers
+export {
+  ContextStrategyFactory,
+  ContextStrategyConfig,
+  createContextStrategy,
+  registerContextStrategy,
+} from './ContextStrategyFactory';
+
+export { resolveContextWindow } from './ContextWindow';
@@ -1,29 +1,73 @@
 import z from 'zod';
-import { createProvider, IProvider, ProviderMessage } from '../providers';
-import { OfficeLLMConfig, ManagerConfig, WorkerConfig, Task, TaskResult, ToolImplementation } from '../types';
+import {
+  ChatOptions,
+  ContentPart,
+  createProviderChain,
+  getModelCapabilities,
+  IProvider,
+  ProviderConfig,
+  ProviderMessage,
+  ProviderMiddleware,
+  ProviderResponse,
+  ProviderType,
+  ResponseFormat,
+  ToolCall,
+  ToolDefinition,
+} from '../providers';
+import {
+  ExecutionOptions,
+  OfficeLLMConfig,
+  ManagerConfig,
+  WorkerConfig,
+  SubOfficeConfig,
+  Delegation,
+  Task,
+  TaskResult,
+  TaskStreamEvent,
+  ToolImplementation,
+} from '../types';
 import { logger } from '../utils/logger';
+import { describePart } from '../utils/media';
+import {
+  CostReport,
+  createCostReport,
+  mergeCostReport,
+  recordCost,
+  recordProviderCost,
+} from '../utils/cost';
+import { BudgetScope, checkBudgets, describeBudgetExceeded, reserveBudget } from '../utils/budget';
+import { abortReason, createExecutionSignal, raceAbort } from '../utils/abort';
+import { renderPrompt } from '../utils/template';
+import {
+  ContextStrategyConfig,
+  ContextWindowLimit,
+  createContextStrategy,
+  IContextStrategy,
+  resolveContextWindow,
+  SummarizeStrategyConfig,
+} from '../context';
 import { createMemory, IMemory, InMemoryStorage, StoredConversation } from '../memory';
 import { randomUUID } from 'crypto';
 
 /**
  * OfficeLLM - Multi-Agent AI Framework with Continuous Execution
- * 
+ *
  * This framework enables building complex AI systems where:
  * - A manager agent coordinates and delegates tasks to worker agents
  * - Worker agents have specialized tools and execute autonomously
  * - Execution continues until agents signal completion (by not calling more tools)
  * - Users provide tool implementations for maximum flexibility
- * 
+ *
  * ## Memory Design
- * 
+ *
  * The framework stores conversations in memory keyed by instanceId:
  * - Each OfficeLLM instance has one instanceId (auto-generated or provided)
  * - Workers maintain message history across multiple task executions (with context window limiting)
  * - Memory storage captures conversation snapshots that can be queried later
  * - Conversations are stored per agent (manager or worker) at task completion
- * 
+ *
  * For separate conversation threads, create multiple OfficeLLM instances with different instanceIds.
- * 
+ *
  * @example
  * ```typescript
  * const office = new OfficeLLM({
@@ -39,7 +83,7 @@ import { randomUUID } from 'crypto';
  *     }
  *   ]
  * });
- * 
+ *
  * const result = await office.executeTask({
  *   title: 'Task title',
  *   description: 'Task description'
@@ -48,7 +92,7 @@ import { randomUUID } from 'crypto';
  */
 export class OfficeLLM {
   private manager: ManagerAgent;
-  private workers: Map<string, WorkerAgent> = new Map();
+  private workers: Map<string, TeamMember>;
   private memory: IMemory;
   private instanceId: string;
 
@@ -67,35 +111,101 @@ export class OfficeLLM {
         instanceId: this.instanceId,
         type: 'in-memory',
       });
-      logger.warn('OFFICELLM', `Memory instance ID not provided, using default: ${this.instanceId}`);
+      logger.warn(
+        'OFFICELLM',
+        `Memory instance ID not provided, using default: ${this.instanceId}`
+      );
     }
 
-    this.manager = new ManagerAgent(config.manager, this.instanceId, this.memory);
+    this.manager = new ManagerAgent(
+      config.manager,
+      this.instanceId,
+      this.memory,
+      config.middleware
+    );
 
-    // Register workers
-    for (const workerConfig of config.workers) {
-      const worker = new WorkerAgent(workerConfig, this.instanceId, this.memory);
-      this.workers.set(workerConfig.name, worker);
-    }
+    // Register workers and sub-offices
+    this.workers = createTeam(
+      config.workers,
+      {
+        instanceId: this.instanceId,
+        memory: this.memory,
+        middleware: config.middleware,
+        maxDepth: config.maxDepth ?? 3,
+      },
+      [],
+      config.manager.restrictedWorkers
+    );
+
+    // After the team is built, so nesting is known to be within the depth limit
+    checkCapabilities(config);
   }
 
   /**
    * Execute a task through the manager
+   *
+   * Pass an AbortSignal or a timeout to cancel the task; it then ends with status
+   * 'cancelled' and whatever output the agents had produced.
+   */
+  async executeTask<T = any>(
+    task: Task<T>,
+    options: ExecutionOptions = {}
+  ): Promise<TaskResult<T>> {
+    const { signal, dispose } = createExecutionSignal(options.signal, options.timeoutMs);
+    try {
+      return await this.manager.executeTask(task, this.workers, signal);
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Execute a task through the manager, streaming progress as it happens
+   *
+   * Yields manager and worker tokens, worker and tool activity, and finally a
+   * `result` event carrying the same TaskResult that executeTask() returns.
+   *
+   * @example
+   * ```typescript
+   * for await (const event of office.executeTaskStream(task)) {
+   *   if (event.type === 'manager_token') process.stdout.write(event.delta);
+   *   if (event.type === 'result') console.log(event.result.usage);
+   * }
+   * ```
    */
-  async executeTask(task: Task): Promise<TaskResult> {
-    return this.manager.executeTask(task, this.workers);
+  async *executeTaskStream(
+    task: Task,
+    options: ExecutionOptions = {}
+  ): AsyncGenerator<TaskStreamEvent> {
+    const { signal, dispose } = createExecutionSignal(options.signal, options.timeoutMs);
+    try {
+      const result = yield* this.manager.run(task, this.workers, true, signal);
+      yield { type: 'result', result };
+    } finally {
+      dispose();
+    }
   }
 
   /**
-   * Call a specific worker directly
+   * Call a specific worker directly, optionally with images or files
    */
-  async callWorker(workerName: string, params: Record<string, any>): Promise<TaskResult> {
+  async callWorker(
+    workerName: string,
+    params: Record<string, any>,
+    attachments?: ContentPart[],
+    options: ExecutionOptions = {}
+  ): Promise<TaskResult> {
     const worker = this.workers.get(workerName);
     if (!worker) {
       throw new Error(`Worker '${workerName}' not found`);
     }
 
-    return worker.execute(params);
+    const { signal, dispose } = createExecutionSignal(options.signal, options.timeoutMs);
+    try {
+      return await worker.execute(params, attachments, signal);
+    } finally {
+      dispose();
+    }
   }
 
   /**
@@ -170,20 +280,81 @@ class ManagerAgent {
   public config: ManagerConfig;
   private provider: IProvider;
   private maxIterations: number;
-  private contextWindow: number;
+  private maxOutputRetries: number;
+  private maxConcurrentWorkers: number;
+  private contextWindow: ContextWindowLimit;
+  private contextStrategy: IContextStrategy;
   private memory: IMemory;
   private instanceId: string;
+  private office: string[];
 
-  constructor(config: ManagerConfig, instanceId: string, memory: IMemory) {
+  constructor(
+    config: ManagerConfig,
+    instanceId: string,
+    memory: IMemory,
+    middleware?: ProviderMiddleware[],
+    office: string[] = []
+  ) {
     this.config = config;
-    this.provider = createProvider(config.provider);
+    this.provider = createProviderChain(config.provider, config.fallback, middleware);
     this.maxIterations = config.maxIterations || 20;
-    this.contextWindow = config.contextWindow || 10; // 10 messages
+    this.maxOutputRetries = config.maxOutputRetries ?? 2;
+    this.maxConcurrentWorkers = config.maxConcurrentWorkers ?? 4;
+    this.contextWindow = resolveContextWindow(config.contextWindow, this.provider, 'MANAGER');
+    this.contextStrategy = resolveContextStrategy(config.contextStrategy, middleware);
     this.instanceId = instanceId;
     this.memory = memory;
+    this.office = office;
+  }
+
+  async executeTask<T>(
+    task: Task<T>,
+    workers: Map<string, TeamMember>,
+    signal?: AbortSignal
+  ): Promise<TaskResult<T>> {
+    return drain(this.run(task, workers, false, signal));
+  }
+
+  /**
+   * Run the manager loop, yielding progress events and returning the task result
+   * When `stream` is false, providers are called with chat() and no tokens are emitted.
+   * A sub-office manager runs under its parent's task budget instead of `task.budget`.
+   */
+  async *run<T>(
+    task: Task<T>,
+    workers: Map<string, TeamMember>,
+    stream: boolean,
+    signal?: AbortSignal,
+    parentBudget?: BudgetScope
+  ): AsyncGenerator<TaskStreamEvent, TaskResult<T>> {
+    const delegations: Delegation[] = [];
+    const result = yield* this.runLoop(task, workers, stream, delegations, signal, parentBudget);
+    return delegations.length > 0 ? { ...result, delegations } : result;
   }
 
-  async executeTask(task: Task, workers: Map<string, WorkerAgent>): Promise<TaskResult> {
+  /**
+   * Manager loop; delegations reported by workers are collected in `delegations`
+   */
+  private async *runLoop<T>(
+    task: Task<T>,
+    workers: Map<string, TeamMember>,
+    stream: boolean,
+    delegations: Delegation[],
+    signal?: AbortSignal,
+    parentBudget?: BudgetScope
+  ): AsyncGenerator<TaskStreamEvent, TaskResult<T>> {
+    const attachments = task.attachments ?? [];
+    const attachmentList =
+      attachments.length > 0
+        ? `\n\nAttachments:\n${attachments.map((part, index) => `${index}: ${describePart(part)}`).join('\n')}`
+        : '';
+
+    // With an output schema, the manager is told up front what its final answer must look like
+    const responseFormat = task.outputSchema ? toResponseFormat(task.outputSchema) : undefined;
+    const outputInstructions = responseFormat
+      ? `\n\nWhen the task is complete, respond without calling workers. Your final answer must be only a JSON value matching this schema:\n${JSON.stringify(responseFormat.schema)}`
+      : '';
+
     const messages: ProviderMessage[] = [
       {
         role: 'system',
@@ -191,161 +362,442 @@ class ManagerAgent {
       },
       {
         role: 'user',
-        content: `Task: ${task.title}\n\nDescription: ${task.description}\n\nPriority: ${task.priority || 'medium'}`,
+        content: `Task: ${task.title}\n\nDescription: ${task.description}\n\nPriority: ${task.priority || 'medium'}${attachmentList}${outputInstructions}`,
+        parts: attachments.length > 0 ? attachments : undefined,
       },
     ];
 
     // Create tool definitions for available workers
+    // With attachments, workers also take the indexes of the attachments to forward
     const workerTools = Array.from(workers.entries())
-      .filter(([name]) => !this.config.restrictedWorkers || !this.config.restrictedWorkers.includes(name)) // filter out restricted workers
+      .filter(
+        ([name]) => !this.config.restrictedWorkers || !this.config.restrictedWorkers.includes(name)
+      ) // filter out restricted workers
       .map(([name, worker]) => ({
-          name,
-          description: worker.config.description || `${name} agent`,
-          parameters: worker.getToolSchema(),
+        name,
+        description: worker.config.description || `${name} agent`,
+        parameters:
+          attachments.length > 0
+            ? worker.getToolSchema().extend({
+                attachments: z
+                  .array(z.number().int())
+                  .optional()
+                  .describe('Indexes of the task attachments this worker needs'),
+              })
+            : worker.getToolSchema(),
       }));
 
     let iteration = 0;
-    let totalUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const totalUsage = {
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      reasoningTokens: 0,
+      retries: 0,
+      cacheHits: 0,
+    };
+    const cost = createCostReport();
+    const servedBy: ServedIteration[] = [];
+
+    // The task budget covers workers too; the manager's own budget only its own calls.
+    // A sub-office's manager reports its spending to the budget of the office it runs in.
+    const startedAt = Date.now();
+    let workerTokens = 0;
+    parentBudget?.track?.(() => ({ tokens: totalUsage.totalTokens, cost: cost.total }));
+    const taskBudget: BudgetScope | undefined =
+      parentBudget ??
+      (task.budget && {
+        scope: 'task',
+        budget: task.budget,
+        startedAt,
+        spent: () => ({ tokens: totalUsage.totalTokens, cost: cost.total }),
+      });
+    const managerBudget: BudgetScope | undefined = this.config.budget
+      ? {
+          scope: 'agent',
+          budget: this.config.budget,
+          startedAt,
+          spent: () => ({
+            tokens: totalUsage.totalTokens - workerTokens,
+            cost: cost.byAgent[this.config.name] ?? 0,
+          }),
+        }
+      : undefined;
 
     try {
       while (iteration < this.maxIterations) {
         iteration++;
         logger.info('MANAGER', `Iteration ${iteration}/${this.maxIterations}`);
+        signal?.throwIfAborted();
 
-        // Apply context window limiting before making the API call
-        const messagesToSend = this.applyContextWindow(messages);
+        const budgetStatus = checkBudgets([taskBudget, managerBudget], this.config.name);
+        if (budgetStatus.state !== 'ok') {
+          const { exceeded } = budgetStatus;
+          let output: { content: string; data?: T; error?: string } = {
+            content: `Task execution stopped: ${describeBudgetExceeded(exceeded)} used up. Partial results may be available.`,
+          };
+
+          if (budgetStatus.state === 'wrap-up') {
+            logger.warn(
+              'MANAGER',
+              `${describeBudgetExceeded(exceeded)} nearly used up, requesting a final answer`
+            );
+            messages.push({
+              role: 'user',
+              content:
+                'The budget for this task is nearly used up. Do not call any more workers; respond now with your best final answer based on the work done so far.',
+            });
+
+            const context = await this.contextStrategy.apply({
+              messages,
+              taskIndex: 1,
+              window: this.contextWindow,
+              tools: workerTools,
+              provider: this.provider,
+              signal,
+            });
+            addUsage(totalUsage, context.usage);
+            recordProviderCost(
+              cost,
+              this.config.name,
+              context.provider ?? this.provider,
+              context.usage
+            );
+
+            const response = yield* chatWithEvents(
+              this.provider,
+              context.messages,
+              workerTools,
+              stream,
+              delta => ({
+                type: 'manager_token',
+                managerName: this.config.name,
+                delta,
+              }),
+              { responseFormat, toolChoice: 'none', signal }
+            );
 
-        const response = await this.provider.chat(messagesToSend, workerTools);
+            recordUsage(totalUsage, response);
+            recordCost(cost, this.config.name, this.provider, response);
+            servedBy.push({
+              iteration,
+              provider: response.servedBy?.type ?? this.provider.type,
+              model: response.servedBy?.model ?? this.provider.config.model,
+            });
+            messages.push(toAssistantMessage(response));
 
-        // Accumulate usage
-        if (response.usage) {
-          totalUsage.promptTokens += response.usage.promptTokens;
-          totalUsage.completionTokens += response.usage.completionTokens;
-          totalUsage.totalTokens += response.usage.totalTokens;
+            // No re-prompts here: the budget does not allow them
+            const parsed = task.outputSchema
+              ? parseStructuredOutput(response.content, task.outputSchema)
+              : undefined;
+            output = !parsed
+              ? { content: response.content }
+              : parsed.success
+                ? { content: response.content, data: parsed.data }
+                : {
+                    content: response.content,
+                    error: `Final answer does not match the output schema: ${parsed.error}`,
+                  };
+          } else {
+            logger.warn('MANAGER', `Stopping: ${describeBudgetExceeded(exceeded)} used up`);
+          }
+
+          return {
+            success: !output.error,
+            status: output.error ? 'failed' : 'completed',
+            content: output.content,
+            data: output.data,
+            error: output.error,
+            usage: totalUsage,
+            cost,
+            budgetExceeded: exceeded,
+          };
         }
 
+        // Apply context window limiting before making the API call
+        const context = await this.contextStrategy.apply({
+          messages,
+          taskIndex: 1,
+          window: this.contextWindow,
+          tools: workerTools,
+          provider: this.provider,
+          signal,
+        });
+        addUsage(totalUsage, context.usage);
+        recordProviderCost(
+          cost,
+          this.config.name,
+          context.provider ?? this.provider,
+          context.usage
+        );
+        const messagesToSend = context.messages;
+
+        const response = yield* chatWithEvents(
+          this.provider,
+          messagesToSend,
+          workerTools,
+          stream,
+          delta => ({
+            type: 'manager_token',
+            managerName: this.config.name,
+            delta,
+          }),
+          { signal }
+        );
+
+        recordUsage(totalUsage, response);
+        recordCost(cost, this.config.name, this.provider, response);
+        servedBy.push({
+          iteration,
+          provider: response.servedBy?.type ?? this.provider.type,
+          model: response.servedBy?.model ?? this.provider.config.model,
+        });
+
         logger.debug('MANAGER', `Response: ${response.content}`);
         logger.info('MANAGER', `Tool calls requested: ${response.toolCalls?.length || 0}`);
 
         // If no tool calls, the manager has finished
         if (!response.toolCalls || response.toolCalls.length === 0) {
           logger.info('MANAGER', 'Task completed - no more tool calls needed');
-          
-          // Store conversation in memory if available
-          if (this.memory) {
-            await this.storeConversation(messages);
-          }
-          
+
+          const output =
+            task.outputSchema && responseFormat
+              ? await this.resolveStructuredOutput(
+                  messages,
+                  response,
+                  task.outputSchema,
+                  responseFormat,
+                  workerTools,
+                  totalUsage,
+                  cost,
+                  signal
+                )
+              : { content: response.content };
+
           return {
-            success: true,
-            content: response.content,
+            success: !output.error,
+            status: output.error ? 'failed' : 'completed',
+            content: output.content,
+            data: output.data,
+            error: output.error,
             usage: totalUsage,
+            cost,
           };
         }
 
         // Add assistant message to history
-          messages.push({
-            role: 'assistant',
-            content: response.content,
-            toolCalls: response.toolCalls,
-          });
+        messages.push(toAssistantMessage(response));
 
-        // Execute all tool calls (workers)
-        for (const toolCall of response.toolCalls) {
-          const worker = workers.get(toolCall.function.name);
-          
-          if (worker && (!this.config.restrictedWorkers || !this.config.restrictedWorkers.includes(toolCall.function.name))) { // check if worker is not restricted
-            logger.info('MANAGER', `Executing worker: ${toolCall.function.name}`);
-            const workerParams = JSON.parse(toolCall.function.arguments);
-            logger.debug('MANAGER', `Worker parameters: ${JSON.stringify(workerParams)}`);
-            
-            const workerResult = await worker.execute(workerParams);
-            
-            logger.debug('MANAGER', `Worker result: ${workerResult.content}`);
-            
-            // Accumulate worker usage
-            if (workerResult.usage) {
-              totalUsage.promptTokens += workerResult.usage.promptTokens;
-              totalUsage.completionTokens += workerResult.usage.completionTokens;
-              totalUsage.totalTokens += workerResult.usage.totalTokens;
-            }
-
-            // Add worker result as tool response
-            messages.push({
-              role: 'tool',
-              content: workerResult.success 
-                ? workerResult.content 
-                : `Error: ${workerResult.error}`,
-              toolCallId: toolCall.id,
-            });
-          } else {
-            // Worker not found - add error message
-            logger.error('MANAGER', `Worker not found or restricted: ${toolCall.function.name}`);
+        // Execute all tool calls (workers) concurrently; results are added in call order.
+        // Each worker's spending counts against the task budget while it runs, until merged below.
+        const calls = response.toolCalls;
+        const reservations = calls.map(() => taskBudget && reserveBudget(taskBudget));
+        const results = yield* runConcurrently(
+          calls.map(
+            (toolCall, index) => () =>
+              this.dispatchWorker(
+                toolCall,
+                workers,
+                stream,
+                attachments,
+                reservations[index]?.scope,
+                signal
+              )
+          ),
+          this.maxConcurrentWorkers
+        );
+
+        results.forEach((workerResult, index) => {
+          // Accumulate worker usage
+          addResultUsage(totalUsage, cost, workerResult);
+          reservations[index]?.settle();
+          workerTokens += workerResult.usage?.totalTokens ?? 0;
+          delegations.push(...(workerResult.delegations ?? []));
+
+          // Add worker result as tool response
           messages.push({
             role: 'tool',
-              content: `Error: Worker '${toolCall.function.name}' not found or restricted`,
-            toolCallId: toolCall.id,
+            content: workerResult.success ? workerResult.content : `Error: ${workerResult.error}`,
+            toolCallId: calls[index].id,
           });
-          }
-        }
+        });
+        signal?.throwIfAborted();
 
         // Continue to next iteration - manager will decide what to do next
       }
 
       // Max iterations reached
       logger.warn('MANAGER', `Maximum iterations (${this.maxIterations}) reached`);
-      
-      // Store conversation in memory if available
-      if (this.memory) {
-        await this.storeConversation(messages);
-      }
-      
+
       return {
         success: true,
-        content: 'Task execution stopped: Maximum iterations reached. Partial results may be available.',
+        status: 'completed',
+        content:
+          'Task execution stopped: Maximum iterations reached. Partial results may be available.',
         usage: totalUsage,
+        cost,
       };
-
     } catch (error) {
-      logger.error('MANAGER', 'Execution failed', error);
-      
-      // Store conversation in memory even on error if available
-      if (this.memory) {
-        await this.storeConversation(messages);
+      if (signal?.aborted) {
+        logger.warn('MANAGER', `Cancelled: ${abortReason(signal)}`);
+        return {
+          success: false,
+          status: 'cancelled',
+          content: partialOutput(messages, 1),
+          error: `Cancelled: ${abortReason(signal)}`,
+          usage: totalUsage,
+          cost,
+        };
       }
-      
+
+      logger.error('MANAGER', 'Execution failed', error);
+
       return {
         success: false,
+        status: 'failed',
         content: '',
         error: error instanceof Error ? error.message : 'Unknown error',
         usage: totalUsage,
+        cost,
       };
+    } finally {
+      // Also runs when a stream consumer stops early and the loop is closed without an error
+      if (this.memory) {
+        await this.storeConversation(messages, servedBy, cost);
+      }
+    }
+  }
+
+  /**
+   * Validate the final answer against the task's output schema, re-prompting in JSON mode
+   * with the validation errors until it matches or the retries run out
+   */
+  private async resolveStructuredOutput<T>(
+    messages: ProviderMessage[],
+    response: ProviderResponse,
+    schema: z.ZodType<T>,
+    responseFormat: ResponseFormat,
+    workerTools: ToolDefinition[],
+    totalUsage: UsageTotals,
+    cost: CostReport,
+    signal?: AbortSignal
+  ): Promise<{ content: string; data?: T; error?: string }> {
+    let content = response.content;
+    let output = parseStructuredOutput(content, schema);
+
+    for (let attempt = 1; !output.success && attempt <= this.maxOutputRetries; attempt++) {
+      logger.warn(
+        'MANAGER',
+        `Final answer does not match the output schema ` +
+          `(retry ${attempt}/${this.maxOutputRetries}): ${output.error}`
+      );
+
+      // The answer keeps its reasoning and thinking blocks, which some providers require back
+      messages.push(toAssistantMessage(response), {
+        role: 'user',
+        content:
+          `Your final answer does not match the required output schema:\n${output.error}\n\n` +
+          'Respond with only the corrected JSON.',
+      });
+
+      const context = await this.contextStrategy.apply({
+        messages,
+        taskIndex: 1,
+        window: this.contextWindow,
+        tools: workerTools,
+        provider: this.provider,
+        signal,
+      });
+      addUsage(totalUsage, context.usage);
+      recordProviderCost(cost, this.config.name, context.provider ?? this.provider, context.usage);
+
+      // The history holds worker calls, so the workers stay declared but may not be called
+      response = await this.provider.chat(context.messages, workerTools, {
+        responseFormat,
+        toolChoice: 'none',
+        signal,
+      });
+      recordUsage(totalUsage, response);
+      recordCost(cost, this.config.name, this.provider, response);
+      content = response.content;
+      output = parseStructuredOutput(content, schema);
     }
+
+    if (!output.success) {
+      return { content, error: `Final answer does not match the output schema: ${output.error}` };
+    }
+    return { content, data: output.data };
   }
 
   /**
-   * Apply context window limiting to prevent unbounded message growth
-   * Keeps system message and the most recent N messages
+   * Run the worker requested by a tool call, yielding its events
+   * Unknown or restricted workers fail without running anything.
    */
-  private applyContextWindow(messages: ProviderMessage[]): ProviderMessage[] {
-    if (messages.length <= this.contextWindow) {
-      return messages;
+  private async *dispatchWorker(
+    toolCall: ToolCall,
+    workers: Map<string, TeamMember>,
+    stream: boolean,
+    attachments: ContentPart[],
+    taskBudget: BudgetScope | undefined,
+    signal?: AbortSignal
+  ): AsyncGenerator<TaskStreamEvent, TaskResult> {
+    const worker = workers.get(toolCall.function.name);
+
+    if (
+      !worker ||
+      (this.config.restrictedWorkers &&
+        this.config.restrictedWorkers.includes(toolCall.function.name))
+    ) {
+      // check if worker is not restricted
+      // Worker not found - report an error to the manager
+      logger.error('MANAGER', `Worker not found or restricted: ${toolCall.function.name}`);
+      return {
+        success: false,
+        status: 'failed',
+        content: '',
+        error: `Worker '${toolCall.function.name}' not found or restricted`,
+      };
     }
 
-    // Always keep the system message (first message)
-    const systemMessage = messages[0];
-    
-    // Get the most recent messages within the context window
-    // We subtract 1 to account for the system message
-    const recentMessages = messages.slice(-(this.contextWindow - 1));
-    
-    return [systemMessage, ...recentMessages];
+    logger.info('MANAGER', `Executing worker: ${toolCall.function.name}`);
+    const workerParams = JSON.parse(toolCall.function.arguments);
+    logger.debug('MANAGER', `Worker parameters: ${JSON.stringify(workerParams)}`);
+
+    // Forward the attachments the manager selected
+    const forwarded = Array.isArray(workerParams.attachments)
+      ? workerParams.attachments.map((index: number) => attachments[index]).filter(Boolean)
+      : [];
+    delete workerParams.attachments;
+
+    yield {
+      type: 'worker_started',
+      workerName: toolCall.function.name,
+      toolCallId: toolCall.id,
+      params: workerParams,
+    };
+
+    const workerResult = yield* worker.run(workerParams, stream, forwarded, taskBudget, signal);
+
+    logger.debug('MANAGER', `Worker result: ${workerResult.content}`);
+
+    yield {
+      type: 'worker_finished',
+      workerName: toolCall.function.name,
+      toolCallId: toolCall.id,
+      result: workerResult,
+    };
+
+    return workerResult;
   }
 
   /**
    * Store conversation in memory
    */
-  private async storeConversation(messages: ProviderMessage[]): Promise<void> {
+  private async storeConversation(
+    messages: ProviderMessage[],
+    servedBy: ServedIteration[],
+    cost: CostReport
+  ): Promise<void> {
     if (!this.memory) return;
 
     try {
@@ -357,8 +809,11 @@ class ManagerAgent {
         updatedAt: new Date(),
         metadata: {
           maxIterations: this.maxIterations,
-          provider: this.config.provider.type,
-          model: this.config.provider.model,
+          provider: this.provider.type,
+          model: this.provider.config.model,
+          servedBy,
+          cost,
+          ...(this.office.length > 0 && { office: this.office }),
         },
       };
 
@@ -373,25 +828,44 @@ class ManagerAgent {
 /**
  * Worker agent that executes specific tasks
  */
-class WorkerAgent {
+class WorkerAgent implements TeamMember {
   public config: WorkerConfig;
   private provider: IProvider;
   private toolImplementations: Record<string, ToolImplementation>;
   private messages: ProviderMessage[] = [];
+  private turn: Promise<void> = Promise.resolve();
+  private peers: Map<string, TeamMember> = new Map();
+  private delegationTools: ToolDefinition[] = [];
   private maxIterations: number;
-  private contextWindow: number;
+  private maxConcurrentTools: number;
+  private contextWindow: ContextWindowLimit;
+  private contextStrategy: IContextStrategy;
   private memory: IMemory;
   private instanceId: string;
+  private office: string[];
 
-  constructor(config: WorkerConfig, instanceId: string, memory: IMemory) {
+  constructor(
+    config: WorkerConfig,
+    instanceId: string,
+    memory: IMemory,
+    middleware?: ProviderMiddleware[],
+    office: string[] = []
+  ) {
     this.config = config;
-    this.provider = createProvider(config.provider);
+    this.provider = createProviderChain(config.provider, config.fallback, middleware);
     this.toolImplementations = config.toolImplementations || {};
     this.maxIterations = config.maxIterations || 25;
-    this.contextWindow = config.contextWindow || 10;
+    this.maxConcurrentTools = config.maxConcurrentTools ?? 4;
+    this.contextWindow = resolveContextWindow(
+      config.contextWindow,
+      this.provider,
+      `WORKER:${config.name}`
+    );
+    this.contextStrategy = resolveContextStrategy(config.contextStrategy, middleware);
     this.memory = memory;
     this.instanceId = instanceId;
-    
+    this.office = office;
+
     // Initialize with system prompt
     this.messages.push({
       role: 'system',
@@ -402,143 +876,392 @@ class WorkerAgent {
   /**
    * Execute worker with given parameters
    */
-  async execute(params: Record<string, any>): Promise<TaskResult> {
-    // Add user message with task parameters
-    this.messages.push({
+  async execute(
+    params: Record<string, any>,
+    attachments?: ContentPart[],
+    signal?: AbortSignal
+  ): Promise<TaskResult> {
+    return drain(this.run(params, false, attachments, undefined, signal));
+  }
+
+  /**
+   * Run the worker loop, yielding progress events and returning the worker result
+   * When `stream` is false, providers are called with chat() and no tokens are emitted.
+   * Runs share the worker's history, so concurrent calls wait for the ones started before them.
+   * A run delegated by a peer (`chain` lists the workers that delegated it) works in its own
+   * conversation instead, without waiting.
+   */
+  async *run(
+    params: Record<string, any>,
+    stream: boolean,
+    attachments: ContentPart[] = [],
+    taskBudget?: BudgetScope,
+    signal?: AbortSignal,
+    chain: string[] = []
+  ): AsyncGenerator<TaskStreamEvent, TaskResult> {
+    const delegations: Delegation[] = [];
+    const path = [...chain, this.config.name];
+    let result: TaskResult;
+
+    if (chain.length > 0) {
+      const messages: ProviderMessage[] = [{ role: 'system', content: this.config.systemPrompt }];
+      result = yield* this.runTurn(
+        messages,
+        params,
+        stream,
+        attachments,
+        path,
+        delegations,
+        taskBudget,
+        signal
+      );
+    } else {
+      const previous = this.turn;
+      let release!: () => void;
+      this.turn = new Promise(resolve => (release = resolve));
+
+      try {
+        await previous;
+        result = yield* this.runTurn(
+          this.messages,
+          params,
+          stream,
+          attachments,
+          path,
+          delegations,
+          taskBudget,
+          signal
+        );
+      } finally {
+        release();
+      }
+    }
+
+    return delegations.length > 0 ? { ...result, delegations } : result;
+  }
+
+  private async *runTurn(
+    messages: ProviderMessage[],
+    params: Record<string, any>,
+    stream: boolean,
+    attachments: ContentPart[],
+    path: string[],
+    delegations: Delegation[],
+    taskBudget?: BudgetScope,
+    signal?: AbortSignal
+  ): AsyncGenerator<TaskStreamEvent, TaskResult> {
+    // Reject arguments that do not match the worker's input schema before touching its history
+    const validated = validateInput(this.config, params, `WORKER:${this.config.name}`);
+    if ('failure' in validated) {
+      return validated.failure;
+    }
+
+    // Add user message with the rendered input and any forwarded attachments
+    messages.push({
       role: 'user',
-      content: Object.entries(params)
-        .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
-        .join('\n'),
+      content: renderPrompt(validated.input, this.config.promptTemplate),
+      parts: attachments.length > 0 ? attachments : undefined,
     });
+    const taskIndex = messages.length - 1;
 
     let iteration = 0;
-    let totalUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const totalUsage = {
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      reasoningTokens: 0,
+      retries: 0,
+      cacheHits: 0,
+    };
+    const cost = createCostReport();
+    const servedBy: ServedIteration[] = [];
+
+    // The task budget is shared with the manager and the workers running alongside this one
+    taskBudget?.track?.(() => ({ tokens: totalUsage.totalTokens, cost: cost.total }));
+    const budgets: Array<BudgetScope | undefined> = [
+      taskBudget,
+      this.config.budget && {
+        scope: 'agent',
+        budget: this.config.budget,
+        startedAt: Date.now(),
+        spent: () => ({ tokens: totalUsage.totalTokens, cost: cost.total }),
+      },
+    ];
+
+    // Peers this worker may delegate to are offered as extra tools
+    const tools =
+      this.delegationTools.length > 0
+        ? [...(this.config.tools ?? []), ...this.delegationTools]
+        : this.config.tools;
+    const delegation: DelegationState = {
+      path,
+      delegations,
+      budget: taskBudget,
+      stream,
+      usage: totalUsage,
+      cost,
+    };
+
+    // Tool calls left without a result when the run stops are answered with this
+    let stopReason = 'Cancelled: the run was stopped';
 
     try {
       while (iteration < this.maxIterations) {
         iteration++;
         logger.info(`WORKER:${this.config.name}`, `Iteration ${iteration}/${this.maxIterations}`);
+        signal?.throwIfAborted();
 
-        // Apply context window limiting before making the API call
-        const messagesToSend = this.applyContextWindow();
+        const budgetStatus = checkBudgets(budgets, this.config.name);
+        if (budgetStatus.state !== 'ok') {
+          const { exceeded } = budgetStatus;
+          let content = `Worker execution stopped: ${describeBudgetExceeded(exceeded)} used up. Partial results may be available.`;
+
+          if (budgetStatus.state === 'wrap-up') {
+            logger.warn(
+              `WORKER:${this.config.name}`,
+              `${describeBudgetExceeded(exceeded)} nearly used up, requesting a final answer`
+            );
+
+            const context = await this.contextStrategy.apply({
+              messages: messages,
+              taskIndex,
+              window: this.contextWindow,
+              tools,
+              provider: this.provider,
+              signal,
+            });
+            addUsage(totalUsage, context.usage);
+            recordProviderCost(
+              cost,
+              this.config.name,
+              context.provider ?? this.provider,
+              context.usage
+            );
+
+            // The wrap-up instruction is only sent for this call and kept out of the worker's history
+            const wrapUp: ProviderMessage = {
+              role: 'user',
+              content:
+                'Your budget is nearly used up. Do not call any more tools; respond now with your best final answer based on the work done so far.',
+            };
+            const response = yield* chatWithEvents(
+              this.provider,
+              [...context.messages, wrapUp],
+              tools,
+              stream,
+              delta => ({
+                type: 'worker_token',
+                workerName: this.config.name,
+                delta,
+              }),
+              { toolChoice: 'none', signal }
+            );
 
-        const response = await this.provider.chat(messagesToSend, this.config.tools);
+            recordUsage(totalUsage, response);
+            recordCost(cost, this.config.name, this.provider, response);
+            servedBy.push({
+              iteration,
+              provider: response.servedBy?.type ?? this.provider.type,
+              model: response.servedBy?.model ?? this.provider.config.model,
+            });
+            // Tool calls are not run after the wrap-up, so none are kept in the history
+            messages.push(toAssistantMessage({ ...response, toolCalls: undefined }));
+            content = response.content;
+          } else {
+            logger.warn(
+              `WORKER:${this.config.name}`,
+              `Stopping: ${describeBudgetExceeded(exceeded)} used up`
+            );
+          }
 
-        // Accumulate usage
-        if (response.usage) {
-          totalUsage.promptTokens += response.usage.promptTokens;
-          totalUsage.completionTokens += response.usage.completionTokens;
-          totalUsage.totalTokens += response.usage.totalTokens;
+          return {
+            success: true,
+            status: 'completed',
+            content,
+            usage: totalUsage,
+            cost,
+            budgetExceeded: exceeded,
+          };
         }
 
+        // Apply context window limiting before making the API call
+        const context = await this.contextStrategy.apply({
+          messages: messages,
+          taskIndex,
+          window: this.contextWindow,
+          tools,
+          provider: this.provider,
+          signal,
+        });
+        addUsage(totalUsage, context.usage);
+        recordProviderCost(
+          cost,
+          this.config.name,
+          context.provider ?? this.provider,
+          context.usage
+        );
+        const messagesToSend = context.messages;
+
+        const response = yield* chatWithEvents(
+          this.provider,
+          messagesToSend,
+          tools,
+          stream,
+          delta => ({
+            type: 'worker_token',
+            workerName: this.config.name,
+            delta,
+          }),
+          { signal }
+        );
+
+        recordUsage(totalUsage, response);
+        recordCost(cost, this.config.name, this.provider, response);
+        servedBy.push({
+          iteration,
+          provider: response.servedBy?.type ?? this.provider.type,
+          model: response.servedBy?.model ?? this.provider.config.model,
+        });
+
         logger.debug(`WORKER:${this.config.name}`, `Response: ${response.content}`);
-        logger.info(`WORKER:${this.config.name}`, `Tool calls requested: ${response.toolCalls?.length || 0}`);
+        logger.info(
+          `WORKER:${this.config.name}`,
+          `Tool calls requested: ${response.toolCalls?.length || 0}`
+        );
 
         // If no tool calls, the worker has finished
         if (!response.toolCalls || response.toolCalls.length === 0) {
           logger.info(`WORKER:${this.config.name}`, 'Completed - no more tool calls needed');
-          
+
           // Add final assistant message
-          this.messages.push({
-            role: 'assistant',
-            content: response.content,
-          });
-          
-          // Store conversation in memory if available
-          if (this.memory) {
-            await this.storeConversation(this.messages);
-          }
-          
+          messages.push(toAssistantMessage(response));
+
           return {
             success: true,
+            status: 'completed',
             content: response.content,
             usage: totalUsage,
+            cost,
           };
         }
 
         // Add assistant message to history
-        this.messages.push({
-          role: 'assistant',
-          content: response.content,
-          toolCalls: response.toolCalls,
-        });
+        messages.push(toAssistantMessage(response));
+
+        const calls = response.toolCalls;
+
+        // Handing off ends this worker's run with the peer's answer; other calls in the response are skipped
+        const handoff = calls.find(
+          toolCall => this.findDelegation(toolCall.function.name)?.type === 'handoff'
+        );
+        if (handoff) {
+          const peer = this.findDelegation(handoff.function.name)!.peer;
+          const cycle = delegationCycle(path, peer);
+          const result = cycle
+            ? undefined
+            : yield* this.runDelegation(handoff, 'handoff', peer, delegation, signal);
+
+          for (const toolCall of calls) {
+            messages.push({
+              role: 'tool',
+              content:
+                toolCall !== handoff
+                  ? `Skipped: the task was handed off to ${peer}`
+                  : cycle
+                    ? `Error: ${cycle}`
+                    : result!.success
+                      ? result!.content
+                      : `Error: ${result!.error}`,
+              toolCallId: toolCall.id,
+            });
+          }
 
-        // Execute all tool calls
-        for (const toolCall of response.toolCalls) {
-          logger.info(`WORKER:${this.config.name}`, `Executing tool: ${toolCall.function.name}`);
-          
-          const toolResult = await this.executeTool(
-            toolCall.function.name,
-            JSON.parse(toolCall.function.arguments)
+          // A refused handoff leaves the task with this worker
+          if (result) {
+            return { ...result, usage: totalUsage, cost };
+          }
+          continue;
+        }
+
+        // Execute all tool calls; consecutive parallel-safe calls run together, others alone in order
+        for (const batch of this.batchToolCalls(calls)) {
+          const results = yield* runConcurrently(
+            batch.map(toolCall => () => this.runToolCall(toolCall, delegation, signal)),
+            this.maxConcurrentTools
           );
-          
-          logger.debug(`WORKER:${this.config.name}`, `Tool result: ${toolResult}`);
 
-          // Add tool result as tool response
-          this.messages.push({
-            role: 'tool',
-            content: toolResult,
-            toolCallId: toolCall.id,
+          // Add tool results as tool responses, in call order
+          results.forEach((toolResult, index) => {
+            messages.push({
+              role: 'tool',
+              content: toolResult,
+              toolCallId: batch[index].id,
+            });
           });
         }
 
         // Continue to next iteration - worker will decide what to do next
       }
-      
+
       // Max iterations reached
-      logger.warn(`WORKER:${this.config.name}`, `Maximum iterations (${this.maxIterations}) reached`);
-      
-      // Store conversation in memory if available
-      if (this.memory) {
-        await this.storeConversation(this.messages);
-      }
-      
+      logger.warn(
+        `WORKER:${this.config.name}`,
+        `Maximum iterations (${this.maxIterations}) reached`
+      );
+
       return {
         success: true,
-        content: 'Worker execution stopped: Maximum iterations reached. Partial results may be available.',
+        status: 'completed',
+        content:
+          'Worker execution stopped: Maximum iterations reached. Partial results may be available.',
         usage: totalUsage,
+        cost,
       };
-
     } catch (error) {
-      logger.error(`WORKER:${this.config.name}`, 'Execution failed', error);
-      
-      // Store conversation in memory even on error if available
-      if (this.memory) {
-        await this.storeConversation(this.messages);
+      stopReason = signal?.aborted
+        ? `Cancelled: ${abortReason(signal)}`
+        : `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+
+      if (signal?.aborted) {
+        logger.warn(`WORKER:${this.config.name}`, `Cancelled: ${abortReason(signal)}`);
+        return {
+          success: false,
+          status: 'cancelled',
+          content: partialOutput(messages, taskIndex),
+          error: `Cancelled: ${abortReason(signal)}`,
+          usage: totalUsage,
+          cost,
+        };
       }
-      
+
+      logger.error(`WORKER:${this.config.name}`, 'Execution failed', error);
+
       return {
         success: false,
+        status: 'failed',
         content: '',
         error: error instanceof Error ? error.message : 'Unknown error',
         usage: totalUsage,
+        cost,
       };
+    } finally {
+      // Also runs when a stream consumer stops early and the loop is closed without an error;
+      // tool calls left without a result are answered so the history stays valid for the next run
+      closePendingToolCalls(messages, stopReason);
+      if (this.memory) {
+        await this.storeConversation(messages, servedBy, cost);
+      }
     }
   }
 
-  /**
-   * Apply context window limiting to prevent unbounded message growth
-   * Keeps system message and the most recent N messages
-   */
-  private applyContextWindow(): ProviderMessage[] {
-    if (this.messages.length <= this.contextWindow) {
-      return this.messages;
-    }
-
-    // Always keep the system message (first message)
-    const systemMessage = this.messages[0];
-    
-    // Get the most recent messages within the context window
-    // We subtract 1 to account for the system message
-    const recentMessages = this.messages.slice(-(this.contextWindow - 1));
-    
-    return [systemMessage, ...recentMessages];
-  }
-
   /**
    * Store conversation in memory
    */
-  private async storeConversation(messages: ProviderMessage[]): Promise<void> {
+  private async storeConversation(
+    messages: ProviderMessage[],
+    servedBy: ServedIteration[],
+    cost: CostReport
+  ): Promise<void> {
     if (!this.memory) return;
 
     try {
@@ -550,9 +1273,12 @@ class WorkerAgent {
         updatedAt: new Date(),
         metadata: {
           maxIterations: this.maxIterations,
-          provider: this.config.provider.type,
-          model: this.config.provider.model,
+          provider: this.provider.type,
+          model: this.provider.config.model,
+          servedBy,
+          cost,
           tools: this.config.tools?.map(t => t.name),
+          ...(this.office.length > 0 && { office: this.office }),
         },
       };
 
@@ -563,16 +1289,216 @@ class WorkerAgent {
     }
   }
 
+  /**
+   * Split tool calls into batches run one after another
+   * Consecutive calls to tools marked `parallel` share a batch; any other call gets its own.
+   */
+  private batchToolCalls(calls: ToolCall[]): ToolCall[][] {
+    const batches: ToolCall[][] = [];
+    let parallel: ToolCall[] = [];
+
+    for (const toolCall of calls) {
+      if (this.getTool(toolCall.function.name)?.parallel) {
+        parallel.push(toolCall);
+        continue;
+      }
+      if (parallel.length > 0) {
+        batches.push(parallel);
+        parallel = [];
+      }
+      batches.push([toolCall]);
+    }
+    if (parallel.length > 0) {
+      batches.push(parallel);
+    }
+
+    return batches;
+  }
+
+  /**
+   * Run a single tool call, yielding its call and result events
+   * Delegation tools run the peer instead, yielding its events.
+   */
+  private async *runToolCall(
+    toolCall: ToolCall,
+    delegation: DelegationState,
+    signal?: AbortSignal
+  ): AsyncGenerator<TaskStreamEvent, string> {
+    const target = this.findDelegation(toolCall.function.name);
+    if (target) {
+      const cycle = delegationCycle(delegation.path, target.peer);
+      if (cycle) {
+        return `Error: ${cycle}`;
+      }
+      const result = yield* this.runDelegation(
+        toolCall,
+        target.type,
+        target.peer,
+        delegation,
+        signal
+      );
+      return result.success ? result.content : `Error: ${result.error}`;
+    }
+
+    logger.info(`WORKER:${this.config.name}`, `Executing tool: ${toolCall.function.name}`);
+    yield { type: 'tool_call', workerName: this.config.name, toolCall };
+
+    const toolResult = await this.executeTool(
+      toolCall.function.name,
+      JSON.parse(toolCall.function.arguments),
+      signal
+    );
+
+    logger.debug(`WORKER:${this.config.name}`, `Tool result: ${toolResult}`);
+    yield {
+      type: 'tool_result',
+      workerName: this.config.name,
+      toolCallId: toolCall.id,
+      toolName: toolCall.function.name,
+      content: toolResult,
+    };
+
+    return toolResult;
+  }
+
+  /**
+   * Resolve the peers this worker may delegate to from its team
+   * Peers the manager may not call are left out.
+   */
+  connectPeers(team: Map<string, TeamMember>, restrictedWorkers: string[] = []): void {
+    const delegation = this.config.delegation;
+    if (!delegation) return;
+
+    for (const name of delegation.workers) {
+      const peer = team.get(name);
+      if (!peer || name === this.config.name) {
+        throw new Error(
+          `Invalid configuration: worker '${this.config.name}' cannot delegate to '${name}', which is not a peer in its team`
+        );
+      }
+      if (restrictedWorkers.includes(name)) {
+        logger.warn(
+          `WORKER:${this.config.name}`,
+          `Not delegating to '${name}': restricted by the manager`
+        );
+        continue;
+      }
+      this.peers.set(name, peer);
+
+      const description = peer.config.description || `${name} agent`;
+      this.delegationTools.push({
+        name: `${DELEGATE_PREFIX}${name}`,
+        description: `Delegate a subtask to ${name} (${description}) and get its result back`,
+        parameters: peer.getToolSchema(),
+      });
+      if (delegation.handoff) {
+        this.delegationTools.push({
+          name: `${HANDOFF_PREFIX}${name}`,
+          description: `Hand the whole task off to ${name} (${description}); its answer becomes your final answer`,
+          parameters: peer.getToolSchema(),
+        });
+      }
+    }
+  }
+
+  /**
+   * Peer and kind of delegation a tool name stands for, if it is a delegation tool
+   */
+  private findDelegation(toolName: string): { type: Delegation['type']; peer: string } | undefined {
+    if (
+      toolName.startsWith(DELEGATE_PREFIX) &&
+      this.peers.has(toolName.slice(DELEGATE_PREFIX.length))
+    ) {
+      return { type: 'delegate', peer: toolName.slice(DELEGATE_PREFIX.length) };
+    }
+    if (
+      this.config.delegation?.handoff &&
+      toolName.startsWith(HANDOFF_PREFIX) &&
+      this.peers.has(toolName.slice(HANDOFF_PREFIX.length))
+    ) {
+      return { type: 'handoff', peer: toolName.slice(HANDOFF_PREFIX.length) };
+    }
+    return undefined;
+  }
+
+  /**
+   * Run a peer for a delegation or handoff tool call, yielding its events
+   * The peer's usage, cost and own delegations are added to this run's.
+   */
+  private async *runDelegation(
+    toolCall: ToolCall,
+    type: Delegation['type'],
+    peer: string,
+    delegation: DelegationState,
+    signal?: AbortSignal
+  ): AsyncGenerator<TaskStreamEvent, TaskResult> {
+    logger.info(
+      `WORKER:${this.config.name}`,
+      `${type === 'handoff' ? 'Handing off to' : 'Delegating to'} ${peer}`
+    );
+    const params = JSON.parse(toolCall.function.arguments);
+
+    yield { type: 'worker_started', workerName: peer, toolCallId: toolCall.id, params };
+    const record: Delegation = {
+      from: this.config.name,
+      to: peer,
+      type,
+      chain: [...delegation.path, peer],
+      success: false,
+    };
+    delegation.delegations.push(record);
+
+    const reservation = delegation.budget && reserveBudget(delegation.budget);
+    const result = yield* this.peers
+      .get(peer)!
+      .run(params, delegation.stream, [], reservation?.scope, signal, delegation.path);
+
+    yield { type: 'worker_finished', workerName: peer, toolCallId: toolCall.id, result };
+    record.success = result.success;
+    delegation.delegations.push(...(result.delegations ?? []));
+    addResultUsage(delegation.usage, delegation.cost, result);
+    reservation?.settle();
+
+    return result;
+  }
+
+  private getTool(toolName: string): ToolDefinition | undefined {
+    return this.config.tools?.find(tool => tool.name === toolName);
+  }
+
   /**
    * Execute a tool call (for workers that have access to tools)
+   * The tool receives the execution signal, which also fires when the tool's time limit runs
+   * out; cancellation is not reported back as a tool error, a timeout is.
    */
-  private async executeTool(toolName: string, args: Record<string, any>): Promise<string> {
+  private async executeTool(
+    toolName: string,
+    args: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<string> {
     // Check if user provided an implementation for this tool
     if (this.toolImplementations[toolName]) {
+      const timeoutMs = this.getTool(toolName)?.timeoutMs ?? this.config.toolTimeoutMs;
+      const execution = createExecutionSignal(signal, timeoutMs);
       try {
-        return await this.toolImplementations[toolName](args);
+        return await raceAbort(
+          this.toolImplementations[toolName](args, { signal: execution.signal }),
+          execution.signal
+        );
       } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        if (execution.signal?.aborted) {
+          logger.warn(
+            `WORKER:${this.config.name}`,
+            `Tool "${toolName}" timed out after ${timeoutMs}ms`
+          );
+          return `Error executing tool "${toolName}": ${abortReason(execution.signal)}`;
+        }
         return `Error executing tool "${toolName}": ${error instanceof Error ? error.message : 'Unknown error'}`;
+      } finally {
+        execution.dispose();
       }
     }
 
@@ -587,28 +1513,594 @@ class WorkerAgent {
    * Keeps only the system prompt
    */
   resetHistory(): void {
-    this.messages = [{
-      role: 'system',
-      content: this.config.systemPrompt,
-    }];
+    this.messages = [
+      {
+        role: 'system',
+        content: this.config.systemPrompt,
+      },
+    ];
     logger.info(`WORKER:${this.config.name}`, 'Conversation history reset');
   }
 
   /**
    * Get the tool schema for this worker (used by manager)
-   * 
-   * This defines the parameters that the manager should provide when calling this worker.
-   * Workers receive these parameters as key-value pairs in the execute() method.
-   * 
-   * The default schema provides a flexible structure for passing task information.
-   * In the future, this could be made configurable per worker for more specific parameter definitions.
+   *
+   * This defines the parameters that the manager should provide when calling this worker:
+   * the worker's `inputSchema` when configured, otherwise a flexible default structure
+   * for passing task information.
+   */
+  getToolSchema(): z.ZodObject<any> {
+    return this.config.inputSchema ?? defaultInputSchema();
+  }
+}
+
+/**
+ * Sub-office: a manager with its own team, called by the parent manager as a single worker
+ *
+ * Each call runs the sub-office manager on a task built from the input. Its usage, cost and
+ * budget roll up into the parent's, and its events and stored conversations carry the
+ * sub-office path.
+ */
+class SubOfficeAgent implements TeamMember {
+  public config: SubOfficeConfig;
+  private manager: ManagerAgent;
+  private workers: Map<string, TeamMember>;
+  private office: string[];
+
+  constructor(config: SubOfficeConfig, context: TeamContext, parentOffice: string[]) {
+    this.config = config;
+    this.office = [...parentOffice, config.name];
+
+    // The top-level manager is the first level, each enclosing sub-office adds one
+    if (this.office.length + 1 > context.maxDepth) {
+      throw new Error(
+        `Invalid configuration: sub-office '${this.office.join(' > ')}' exceeds the maximum depth of ${context.maxDepth} managers`
+      );
+    }
+
+    this.manager = new ManagerAgent(
+      config.manager,
+      context.instanceId,
+      context.memory,
+      context.middleware,
+      this.office
+    );
+    this.workers = createTeam(
+      config.workers,
+      context,
+      this.office,
+      config.manager.restrictedWorkers
+    );
+  }
+
+  /**
+   * Execute the sub-office with given parameters
+   */
+  async execute(
+    params: Record<string, any>,
+    attachments?: ContentPart[],
+    signal?: AbortSignal
+  ): Promise<TaskResult> {
+    return drain(this.run(params, false, attachments, undefined, signal));
+  }
+
+  /**
+   * Run the sub-office manager, yielding its events tagged with the sub-office path
+   */
+  async *run(
+    params: Record<string, any>,
+    stream: boolean,
+    attachments: ContentPart[] = [],
+    taskBudget?: BudgetScope,
+    signal?: AbortSignal
+  ): AsyncGenerator<TaskStreamEvent, TaskResult> {
+    const validated = validateInput(this.config, params, `OFFICE:${this.config.name}`);
+    if ('failure' in validated) {
+      return validated.failure;
+    }
+
+    const { input } = validated;
+    const task: Task = {
+      title:
+        typeof input.task === 'string' ? input.task : this.config.description || this.config.name,
+      description: renderPrompt(input, this.config.promptTemplate),
+      priority: ['low', 'medium', 'high'].includes(input.priority) ? input.priority : undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    };
+
+    logger.info(`OFFICE:${this.config.name}`, `Running sub-office: ${this.office.join(' > ')}`);
+    const events = this.manager.run(task, this.workers, stream, signal, taskBudget);
+    let next = await events.next();
+    while (!next.done) {
+      yield { ...next.value, office: [this.config.name, ...(next.value.office ?? [])] };
+      next = await events.next();
+    }
+    return next.value;
+  }
+
+  /**
+   * Reset conversation history for every worker in the sub-office
+   */
+  resetHistory(): void {
+    for (const worker of this.workers.values()) {
+      worker.resetHistory();
+    }
+  }
+
+  /**
+   * Get the tool schema for this sub-office (used by the parent manager)
+   */
+  getToolSchema(): z.ZodObject<any> {
+    return this.config.inputSchema ?? defaultInputSchema();
+  }
+}
+
+/**
+ * Member of a manager's team, called by the manager as a tool: a worker or a sub-office
+ */
+interface TeamMember {
+  readonly config: { name: string; description?: string };
+  execute(
+    params: Record<string, any>,
+    attachments?: ContentPart[],
+    signal?: AbortSignal
+  ): Promise<TaskResult>;
+  run(
+    params: Record<string, any>,
+    stream: boolean,
+    attachments?: ContentPart[],
+    taskBudget?: BudgetScope,
+    signal?: AbortSignal,
+    chain?: string[]
+  ): AsyncGenerator<TaskStreamEvent, TaskResult>;
+  resetHistory(): void;
+  getToolSchema(): z.ZodObject<any>;
+}
+
+/**
+ * Settings shared by every agent of an office, including its sub-offices
+ */
+interface TeamContext {
+  instanceId: string;
+  memory: IMemory;
+  middleware?: ProviderMiddleware[];
+  maxDepth: number;
+}
+
+/**
+ * Create a manager's team by name from worker and sub-office configurations
+ * Workers that delegate are connected to their peers once the whole team exists.
+ */
+function createTeam(
+  configs: Array<WorkerConfig | SubOfficeConfig>,
+  context: TeamContext,
+  office: string[],
+  restrictedWorkers?: string[]
+): Map<string, TeamMember> {
+  const team = new Map<string, TeamMember>();
+  for (const config of configs) {
+    team.set(
+      config.name,
+      isSubOfficeConfig(config)
+        ? new SubOfficeAgent(config, context, office)
+        : new WorkerAgent(config, context.instanceId, context.memory, context.middleware, office)
+    );
+  }
+
+  for (const member of team.values()) {
+    if (member instanceof WorkerAgent) {
+      member.connectPeers(team, restrictedWorkers);
+    }
+  }
+  return team;
+}
+
+const DELEGATE_PREFIX = 'delegate_to_';
+const HANDOFF_PREFIX = 'handoff_to_';
+
+/**
+ * State of a worker run that its delegations report into
+ */
+interface DelegationState {
+  /**
+   * Workers on the delegation path, ending with the running worker
    */
-  getToolSchema() {
-    return z.object({
-      task: z.string().describe('The task to perform, in detail'),
-      context: z.string().describe('The context of the task'),
-      metadata: z.object({}).describe('The metadata of the task').required(),
-      priority: z.enum(['low', 'medium', 'high']).describe('Task priority level').default('high'),
+  path: string[];
+  delegations: Delegation[];
+  budget?: BudgetScope;
+  stream: boolean;
+  usage: UsageTotals;
+  cost: CostReport;
+}
+
+/**
+ * Describe the cycle delegating to `peer` would create, if it is already on the path
+ */
+function delegationCycle(path: string[], peer: string): string | undefined {
+  return path.includes(peer) ? `Delegation cycle: ${[...path, peer].join(' > ')}` : undefined;
+}
+
+function isSubOfficeConfig(config: WorkerConfig | SubOfficeConfig): config is SubOfficeConfig {
+  return 'manager' in config;
+}
+
+/**
+ * Parameters a manager provides to a worker or sub-office without its own input schema
+ *
+ * The default schema provides a flexible structure for passing task information.
+ */
+function defaultInputSchema(): z.ZodObject<any> {
+  return z.object({
+    task: z.string().describe('The task to perform, in detail'),
+    context: z.string().describe('The context of the task'),
+    metadata: z.object({}).describe('The metadata of the task').required(),
+    priority: z.enum(['low', 'medium', 'high']).describe('Task priority level').default('high'),
+  });
+}
+
+/**
+ * Validate a team member's input against its schema, applying schema defaults
+ * Invalid input yields a failed result for the caller, so the manager can correct its call.
+ */
+function validateInput(
+  config: { name: string; inputSchema?: z.ZodObject<any> },
+  params: Record<string, any>,
+  component: string
+): { input: Record<string, any> } | { failure: TaskResult } {
+  if (!config.inputSchema) {
+    return { input: params };
+  }
+
+  const parsed = config.inputSchema.safeParse(params);
+  if (parsed.success) {
+    return { input: parsed.data };
+  }
+
+  const error = `Invalid input for worker '${config.name}': ${z.prettifyError(parsed.error)}`;
+  logger.warn(component, error);
+  return {
+    failure: {
+      success: false,
+      status: 'failed',
+      content: '',
+      error,
+      usage: {
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        reasoningTokens: 0,
+        retries: 0,
+        cacheHits: 0,
+      },
+      cost: createCostReport(),
+    },
+  };
+}
+
+/**
+ * Provider that served a single agent iteration, recorded in conversation metadata
+ */
+interface ServedIteration {
+  iteration: number;
+  provider: ProviderType;
+  model: string;
+}
+
+/**
+ * Check that every model an agent may be served by can call tools when the agent needs them
+ * (the manager calls workers as tools), warning or throwing per `config.capabilityCheck`
+ */
+function checkCapabilities(config: OfficeLLMConfig): void {
+  const mode = config.capabilityCheck ?? 'warn';
+  if (mode === 'off') return;
+
+  // Sub-offices contribute their manager and workers
+  const collect = (
+    manager: ManagerConfig,
+    workers: Array<WorkerConfig | SubOfficeConfig>
+  ): Array<{ label: string; provider: ProviderConfig | ProviderConfig[]; needsTools: boolean }> => [
+    {
+      label: `Manager '${manager.name}'`,
+      provider: manager.provider,
+      needsTools: workers.length > 0,
+    },
+    ...workers.flatMap(worker =>
+      isSubOfficeConfig(worker)
+        ? collect(worker.manager, worker.workers)
+        : [
+            {
+              label: `Worker '${worker.name}'`,
+              provider: worker.provider,
+              needsTools:
+                (worker.tools?.length ?? 0) > 0 || (worker.delegation?.workers.length ?? 0) > 0,
+            },
+          ]
+    ),
+  ];
+  const agents = collect(config.manager, config.workers);
+
+  const problems: string[] = [];
+  for (const agent of agents) {
+    if (!agent.needsTools) continue;
+    for (const provider of Array.isArray(agent.provider) ? agent.provider : [agent.provider]) {
+      if (getModelCapabilities(provider.model)?.toolCalling === false) {
+        problems.push(
+          `${agent.label} needs tool calling, which model ${provider.model} (${provider.type}) does not support`
+        );
+      }
+    }
+  }
+
+  if (problems.length === 0) return;
+  if (mode === 'error') {
+    throw new Error(`Invalid configuration:\n${problems.join('\n')}`);
+  }
+  for (const problem of problems) {
+    logger.warn('OFFICELLM', problem);
+  }
+}
+
+// Tool results that report a failure rather than output: errors, cancellations, skipped calls
+const FAILED_TOOL_RESULT = /^(Error\b|Cancelled:|Skipped:)/;
+
+/**
+ * Latest non-empty assistant or tool output after the task message, returned when cancelled
+ */
+function partialOutput(messages: ProviderMessage[], taskIndex: number): string {
+  for (let i = messages.length - 1; i > taskIndex; i--) {
+    const message = messages[i];
+    if (message.role === 'tool' && FAILED_TOOL_RESULT.test(message.content)) {
+      continue;
+    }
+    if ((message.role === 'assistant' || message.role === 'tool') && message.content) {
+      return message.content;
+    }
+  }
+  return '';
+}
+
+/**
+ * Answer the tool calls of the latest assistant message that have no result yet
+ */
+function closePendingToolCalls(messages: ProviderMessage[], content: string): void {
+  let index = messages.length - 1;
+  while (index >= 0 && messages[index].role === 'tool') {
+    index--;
+  }
+
+  const assistant = messages[index];
+  if (assistant?.role !== 'assistant' || !assistant.toolCalls) {
+    return;
+  }
+
+  const answered = new Set(messages.slice(index + 1).map(message => message.toolCallId));
+  for (const toolCall of assistant.toolCalls) {
+    if (!answered.has(toolCall.id)) {
+      messages.push({ role: 'tool', content, toolCallId: toolCall.id });
+    }
+  }
+}
+
+/**
+ * Create an agent's context strategy, defaulting to truncation
+ * A summarizer with its own provider runs the office middleware too, like the agents' providers.
+ */
+function resolveContextStrategy(
+  strategy: ContextStrategyConfig | IContextStrategy | undefined,
+  middleware?: ProviderMiddleware[]
+): IContextStrategy {
+  if (!strategy) {
+    return createContextStrategy({ type: 'truncate' });
+  }
+  if ('apply' in strategy && typeof strategy.apply === 'function') {
+    return strategy;
+  }
+
+  const config = strategy as ContextStrategyConfig;
+  if (config.type === 'summarize' && middleware && middleware.length > 0) {
+    const summarize = config as SummarizeStrategyConfig;
+    return createContextStrategy({
+      ...summarize,
+      middleware: [...middleware, ...(summarize.middleware ?? [])],
     });
   }
+  return createContextStrategy(config);
+}
+
+/**
+ * Describe a Zod schema as a structured output format for providers
+ */
+function toResponseFormat(schema: z.ZodType): ResponseFormat {
+  const jsonSchema = z.toJSONSchema(schema) as Record<string, any>;
+  delete jsonSchema.$schema;
+  return { type: 'json_schema', name: 'final_answer', schema: jsonSchema };
+}
+
+/**
+ * Parse a final answer as JSON and validate it against a schema
+ */
+function parseStructuredOutput<T>(
+  content: string,
+  schema: z.ZodType<T>
+): { success: true; data: T } | { success: false; error: string } {
+  // Models sometimes wrap JSON in a markdown code fence
+  const json = content.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+
+  const parsed = schema.safeParse(value);
+  return parsed.success
+    ? { success: true, data: parsed.data }
+    : { success: false, error: z.prettifyError(parsed.error) };
+}
+
+/**
+ * Usage totals accumulated by an agent loop
+ */
+interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  reasoningTokens: number;
+  retries: number;
+  cacheHits: number;
+}
+
+/**
+ * Accumulate the usage of a provider response (cached responses cost nothing)
+ */
+function recordUsage(totalUsage: UsageTotals, response: ProviderResponse): void {
+  if (response.cached) {
+    totalUsage.cacheHits++;
+  } else {
+    addUsage(totalUsage, response.usage);
+  }
+  totalUsage.retries += response.retries ?? 0;
+}
+
+/**
+ * Add the usage and cost of another agent's run (a worker, sub-office or delegated peer)
+ */
+function addResultUsage(totalUsage: UsageTotals, cost: CostReport, result: TaskResult): void {
+  if (result.usage) {
+    addUsage(totalUsage, result.usage);
+    totalUsage.retries += result.usage.retries ?? 0;
+    totalUsage.cacheHits += result.usage.cacheHits ?? 0;
+  }
+  if (result.cost) {
+    mergeCostReport(cost, result.cost);
+  }
+}
+
+/**
+ * Add token usage spent outside the agent's own provider calls
+ */
+function addUsage(totalUsage: UsageTotals, usage: ProviderResponse['usage']): void {
+  if (usage) {
+    totalUsage.promptTokens += usage.promptTokens;
+    totalUsage.completionTokens += usage.completionTokens;
+    totalUsage.totalTokens += usage.totalTokens;
+    totalUsage.reasoningTokens += usage.reasoningTokens ?? 0;
+  }
+}
+
+/**
+ * Assistant message for a provider response, keeping its reasoning so providers can
+ * continue from it after tool calls
+ */
+function toAssistantMessage(response: ProviderResponse): ProviderMessage {
+  return {
+    role: 'assistant',
+    content: response.content,
+    toolCalls: response.toolCalls,
+    reasoning: response.reasoning,
+    thinkingBlocks: response.thinkingBlocks,
+  };
+}
+
+/**
+ * Call a provider, yielding text deltas as events when streaming
+ * Falls back to chat() when streaming is off or the provider has no chatStream()
+ */
+async function* chatWithEvents(
+  provider: IProvider,
+  messages: ProviderMessage[],
+  tools: ToolDefinition[] | undefined,
+  stream: boolean,
+  toEvent: (delta: string) => TaskStreamEvent,
+  options?: ChatOptions
+): AsyncGenerator<TaskStreamEvent, ProviderResponse> {
+  if (!stream || !provider.chatStream) {
+    return provider.chat(messages, tools, options);
+  }
+
+  for await (const chunk of provider.chatStream(messages, tools, options)) {
+    if (chunk.type === 'text') {
+      yield toEvent(chunk.delta);
+    } else if (chunk.type === 'done') {
+      return chunk.response;
+    }
+  }
+
+  throw new Error(`Provider '${provider.type}' stream ended without a final response`);
+}
+
+/**
+ * Run an agent loop to completion without consuming its events
+ */
+async function drain<T>(generator: AsyncGenerator<TaskStreamEvent, T>): Promise<T> {
+  let next = await generator.next();
+  while (!next.done) {
+    next = await generator.next();
+  }
+  return next.value;
+}
+
+/**
+ * Run agent loops with at most `concurrency` at a time, yielding their events as they arrive
+ * and returning their results in the order of `tasks`
+ */
+async function* runConcurrently<T>(
+  tasks: Array<() => AsyncGenerator<TaskStreamEvent, T>>,
+  concurrency: number
+): AsyncGenerator<TaskStreamEvent, T[]> {
+  type Step = { index: number; next?: IteratorResult<TaskStreamEvent, T>; error?: unknown };
+
+  const results = new Array<T>(tasks.length);
+  const running = new Map<
+    number,
+    { generator: AsyncGenerator<TaskStreamEvent, T>; step: Promise<Step> }
+  >();
+  let started = 0;
+
+  // Steps never reject, so a loop failing while another is awaited cannot go unhandled
+  const advance = (index: number, generator: AsyncGenerator<TaskStreamEvent, T>): Promise<Step> =>
+    generator.next().then(
+      next => ({ index, next }),
+      error => ({ index, error })
+    );
+
+  const fill = () => {
+    while (running.size < Math.max(concurrency, 1) && started < tasks.length) {
+      const index = started++;
+      const generator = tasks[index]();
+      running.set(index, { generator, step: advance(index, generator) });
+    }
+  };
+
+  try {
+    fill();
+    while (running.size > 0) {
+      const { index, next, error } = await Promise.race(
+        Array.from(running.values(), loop => loop.step)
+      );
+      const loop = running.get(index)!;
+      if (!next) {
+        running.delete(index);
+        throw error;
+      }
+      if (next.done) {
+        results[index] = next.value;
+        running.delete(index);
+        fill();
+      } else {
+        loop.step = advance(index, loop.generator);
+        yield next.value;
+      }
+    }
+    return results;
+  } finally {
+    // Stop loops still running when the caller gives up or one of them failed
+    for (const { generator } of running.values()) {
+      generator.return(undefined as T).catch(() => undefined);
+    }
+  }
 }
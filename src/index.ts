@@ -8,19 +8,64 @@ export {
   BaseProviderConfig,
   ProviderType,
   ProviderMessage,
+  ContentPart,
+  MediaSource,
   ToolCall,
   ToolDefinition,
   ProviderResponse,
+  ProviderStreamChunk,
+  ChatOptions,
+  ResponseFormat,
+  ReasoningConfig,
+  ThinkingBlock,
 } from './providers/BaseProvider';
 
+export {
+  OpenAICompatibleProvider,
+  OpenAICompatibleConfig,
+} from './providers/OpenAICompatibleProvider';
 export { OpenAIProvider, OpenAIConfig } from './providers/OpenAIProvider';
 export { AnthropicProvider, AnthropicConfig } from './providers/AnthropicProvider';
-export { GeminiProvider, GeminiConfig } from './providers/GeminiProvider';
+export { GeminiProvider, GeminiConfig, GeminiBlockedError } from './providers/GeminiProvider';
 export { OpenRouterProvider, OpenRouterConfig } from './providers/OpenRouterProvider';
+export {
+  ScriptedProvider,
+  ScriptedConfig,
+  ProviderScript,
+  ScriptedTurn,
+  ScriptedResponse,
+  ScriptedToolCall,
+  ScriptedCall,
+} from './providers/ScriptedProvider';
+export { FallbackProvider, FallbackPolicy } from './providers/FallbackProvider';
+export {
+  CassetteProvider,
+  CassetteConfig,
+  Cassette,
+  CassetteInteraction,
+  CassetteMismatchError,
+} from './providers/CassetteProvider';
+export { CachingProvider, ResponseCacheConfig } from './providers/CachingProvider';
+export { RateLimitedProvider, RateLimitConfig } from './providers/RateLimitedProvider';
+export {
+  MiddlewareProvider,
+  ProviderMiddleware,
+  ProviderRequest,
+} from './providers/MiddlewareProvider';
+export {
+  ModelCapabilities,
+  ModelPricing,
+  getModelCapabilities,
+  registerModelCapabilities,
+  getRegisteredModels,
+  getModelPricing,
+  registerModelPricing,
+} from './providers/ModelCapabilities';
 
 export {
   ProviderFactory,
   createProvider,
+  createProviderChain,
   registerProvider,
   ProviderConfig,
 } from './providers/ProviderFactory';
@@ -38,24 +83,107 @@ export {
 export { InMemoryStorage, InMemoryConfig } from './memory/InMemoryStorage';
 export { RedisMemory, RedisConfig } from './memory/RedisMemory';
 
+export { MemoryFactory, createMemory, registerMemory, MemoryConfig } from './memory/MemoryFactory';
+
+// Response cache
+export { BaseCache, ICache, BaseCacheConfig, CacheType } from './cache/BaseCache';
+
+export { LRUCache, LRUCacheConfig } from './cache/LRUCache';
+export { RedisCache, RedisCacheConfig } from './cache/RedisCache';
+
+export { CacheFactory, createCache, registerCache, CacheConfig } from './cache/CacheFactory';
+
+// Rate limiting
+export {
+  BaseRateLimiter,
+  IRateLimiter,
+  BaseRateLimiterConfig,
+  RateLimiterType,
+  RateLimits,
+} from './ratelimit/BaseRateLimiter';
+
+export { InMemoryRateLimiter, InMemoryRateLimiterConfig } from './ratelimit/InMemoryRateLimiter';
+export { RedisRateLimiter, RedisRateLimiterConfig } from './ratelimit/RedisRateLimiter';
+
 export {
-  MemoryFactory,
-  createMemory,
-  registerMemory,
-  MemoryConfig,
-} from './memory/MemoryFactory';
+  RateLimiterFactory,
+  createRateLimiter,
+  registerRateLimiter,
+  RateLimiterConfig,
+} from './ratelimit/RateLimiterFactory';
+
+// Context strategies
+export {
+  BaseContextStrategy,
+  IContextStrategy,
+  BaseContextStrategyConfig,
+  ContextStrategyType,
+  ContextWindowLimit,
+  ContextRequest,
+  ContextResult,
+  ContextSelection,
+  ContextTurn,
+  splitTurns,
+} from './context/BaseContextStrategy';
+
+export { TruncateStrategy, TruncateStrategyConfig } from './context/TruncateStrategy';
+export {
+  KeepFirstTaskStrategy,
+  KeepFirstTaskStrategyConfig,
+} from './context/KeepFirstTaskStrategy';
+export { SummarizeStrategy, SummarizeStrategyConfig } from './context/SummarizeStrategy';
+
+export {
+  ContextStrategyFactory,
+  createContextStrategy,
+  registerContextStrategy,
+  ContextStrategyConfig,
+} from './context/ContextStrategyFactory';
 
 // Types
 export {
   OfficeLLMConfig,
   ManagerConfig,
   WorkerConfig,
+  SubOfficeConfig,
+  DelegationConfig,
+  Delegation,
   Task,
   TaskResult,
+  TaskStatus,
+  TaskStreamEvent,
+  TokenContextWindow,
+  ExecutionOptions,
+  ToolContext,
+  ToolImplementation,
 } from './types';
 
 // Logger utility
 export { logger, Logger, LogLevel } from './utils/logger';
 
+// Retry utility
+export { RetryConfig, retryWithBackoff, isRetryableError } from './utils/retry';
+
+// Attachments
+export { readAttachment, inferMediaType } from './utils/media';
+
+// Cost accounting
+export { CostReport, calculateCost } from './utils/cost';
+
+// Budgets
+export { BudgetConfig, BudgetExceeded, BudgetLimit } from './utils/budget';
+
+// Token counting
+export {
+  Tokenizer,
+  EstimatingTokenizer,
+  registerTokenizer,
+  getTokenizer,
+  countMessageTokens,
+} from './utils/tokens';
+
+// Worker prompt templates
+export { PromptTemplate, renderPrompt } from './utils/template';
+
 // Re-export zod for convenience
 export { z } from 'zod';
@@ -124,4 +124,3 @@ export abstract class BaseMemory implements IMemory {
     return this.config.type;
   }
 }
-
@@ -1,4 +1,10 @@
-import { BaseMemory, BaseMemoryConfig, StoredConversation, QueryOptions, IMemory } from './BaseMemory';
+import {
+  BaseMemory,
+  BaseMemoryConfig,
+  StoredConversation,
+  QueryOptions,
+  IMemory,
+} from './BaseMemory';
 import { ProviderMessage } from '../providers';
 
 /**
@@ -104,19 +110,14 @@ export class InMemoryStorage extends BaseMemory {
     newestConversation?: Date;
   }> {
     const conversations = Array.from(this.conversations.values());
-    
-    const totalMessages = conversations.reduce(
-      (sum, conv) => sum + conv.messages.length,
-      0
-    );
+
+    const totalMessages = conversations.reduce((sum, conv) => sum + conv.messages.length, 0);
 
     let oldestConversation: Date | undefined;
     let newestConversation: Date | undefined;
 
     if (conversations.length > 0) {
-      const sorted = conversations.sort((a, b) => 
-        a.createdAt.getTime() - b.createdAt.getTime()
-      );
+      const sorted = conversations.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
       oldestConversation = sorted[0].createdAt;
       newestConversation = sorted[sorted.length - 1].createdAt;
     }
@@ -151,4 +152,3 @@ export class InMemoryStorage extends BaseMemory {
     return oldestId;
   }
 }
-
@@ -1,13 +1,11 @@
-import { BaseMemory, IMemory, BaseMemoryConfig, MemoryType } from './BaseMemory';
+import { IMemory, BaseMemoryConfig, MemoryType } from './BaseMemory';
 import { InMemoryStorage, InMemoryConfig } from './InMemoryStorage';
 import { RedisMemory, RedisConfig } from './RedisMemory';
 
 /**
  * Union type of all memory configurations
  */
-export type MemoryConfig =
-  | InMemoryConfig
-  | RedisConfig;
+export type MemoryConfig = InMemoryConfig | RedisConfig;
 
 /**
  * Memory factory for creating and managing memory providers
@@ -77,4 +75,3 @@ export function registerMemory<T extends BaseMemoryConfig>(
 ): void {
   MemoryFactory.register(type, MemoryClass);
 }
-
@@ -1,12 +1,18 @@
-import { BaseMemory, BaseMemoryConfig, StoredConversation, QueryOptions, IMemory } from './BaseMemory';
+import {
+  BaseMemory,
+  BaseMemoryConfig,
+  StoredConversation,
+  QueryOptions,
+  IMemory,
+} from './BaseMemory';
 import { ProviderMessage } from '../providers';
-import { createClient } from 'redis';
 import { logger } from '../utils/logger';
+import { createRedisClient, RedisConnectionConfig } from '../utils/redis';
 
 /**
  * Configuration for Redis memory
  */
-export interface RedisConfig extends BaseMemoryConfig {
+export interface RedisConfig extends BaseMemoryConfig, RedisConnectionConfig {
   type: 'redis';
   host: string;
   port: number;
@@ -47,23 +53,9 @@ export class RedisMemory extends BaseMemory {
    */
   private async initializeRedis(config: RedisConfig): Promise<void> {
     try {
-      // Build the Redis URL with optional password
-      // Format: redis[s]://[[username][:password]@][host][:port][/db-number]
-      let url = this.tls ? 'rediss://' : 'redis://';
-      if (config.password) {
-        // Redis uses default username if not specified
-        url += `default:${config.password}@`;
-      }
-      url += `${config.host}:${config.port}`;
-      if (config.db !== undefined) {
-        url += `/${config.db}`;
-      }
-
       logger.debug('REDIS', `Connecting to Redis at ${config.host}:${config.port}`);
-      
-      this.client = createClient({
-        url: url,
-      });
+
+      this.client = createRedisClient(config);
 
       this.client.on('error', (err: Error) => {
         console.error('Redis Client Error', err);
@@ -96,7 +88,7 @@ export class RedisMemory extends BaseMemory {
 
   async storeConversation(conversation: StoredConversation): Promise<void> {
     this.ensureConnected();
-    
+
     const key = this.getConversationKey();
     const value = JSON.stringify({
       ...conversation,
@@ -116,7 +108,7 @@ export class RedisMemory extends BaseMemory {
 
   async getConversation(): Promise<StoredConversation | null> {
     this.ensureConnected();
-    
+
     const key = this.getConversationKey();
     const value = await this.client.get(key);
 
@@ -137,7 +129,7 @@ export class RedisMemory extends BaseMemory {
    */
   private async getConversationById(id: string): Promise<StoredConversation | null> {
     this.ensureConnected();
-    
+
     const key = `${this.keyPrefix}${id}`;
     const value = await this.client.get(key);
 
@@ -155,7 +147,7 @@ export class RedisMemory extends BaseMemory {
 
   async updateConversation(messages: ProviderMessage[]): Promise<void> {
     this.ensureConnected();
-    
+
     const conversation = await this.getConversation();
     if (!conversation) {
       throw new Error(`Conversation with instanceId ${this.instanceId} not found`);
@@ -169,7 +161,7 @@ export class RedisMemory extends BaseMemory {
 
   async deleteConversation(): Promise<void> {
     this.ensureConnected();
-    
+
     const conversation = await this.getConversation();
     if (conversation) {
       await this.removeFromIndex(conversation);
@@ -181,7 +173,7 @@ export class RedisMemory extends BaseMemory {
 
   async queryConversations(options?: QueryOptions): Promise<StoredConversation[]> {
     this.ensureConnected();
-    
+
     // Get all conversation IDs from index
     let conversationIds: string[] = [];
 
@@ -199,9 +191,7 @@ export class RedisMemory extends BaseMemory {
       // Get all conversations
       const pattern = this.keyPrefix + '*';
       const keys = await this.client.keys(pattern);
-      conversationIds = keys.map((key: string) => 
-        key.replace(this.keyPrefix, '')
-      );
+      conversationIds = keys.map((key: string) => key.replace(this.keyPrefix, ''));
     }
 
     // Fetch all conversations
@@ -234,11 +224,11 @@ export class RedisMemory extends BaseMemory {
 
   async clear(): Promise<void> {
     this.ensureConnected();
-    
+
     // Delete all conversation keys
     const pattern = this.keyPrefix + '*';
     const keys = await this.client.keys(pattern);
-    
+
     if (keys.length > 0) {
       await this.client.del(keys);
     }
@@ -246,7 +236,7 @@ export class RedisMemory extends BaseMemory {
     // Delete all index keys
     const indexPattern = this.keyPrefix + 'index:*';
     const indexKeys = await this.client.keys(indexPattern);
-    
+
     if (indexKeys.length > 0) {
       await this.client.del(indexKeys);
     }
@@ -259,21 +249,16 @@ export class RedisMemory extends BaseMemory {
     newestConversation?: Date;
   }> {
     this.ensureConnected();
-    
+
     const conversations = await this.queryConversations();
-    
-    const totalMessages = conversations.reduce(
-      (sum, conv) => sum + conv.messages.length,
-      0
-    );
+
+    const totalMessages = conversations.reduce((sum, conv) => sum + conv.messages.length, 0);
 
     let oldestConversation: Date | undefined;
     let newestConversation: Date | undefined;
 
     if (conversations.length > 0) {
-      const sorted = conversations.sort((a, b) => 
-        a.createdAt.getTime() - b.createdAt.getTime()
-      );
+      const sorted = conversations.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
       oldestConversation = sorted[0].createdAt;
       newestConversation = sorted[sorted.length - 1].createdAt;
     }
@@ -323,4 +308,3 @@ export class RedisMemory extends BaseMemory {
     await this.client.sRem(indexKey, this.instanceId);
   }
 }
-
@@ -13,10 +13,4 @@ export { InMemoryStorage, InMemoryConfig } from './InMemoryStorage';
 export { RedisMemory, RedisConfig } from './RedisMemory';
 
 // Factory and helpers
-export {
-  MemoryFactory,
-  MemoryConfig,
-  createMemory,
-  registerMemory,
-} from './MemoryFactory';
-
+export { MemoryFactory, MemoryConfig, createMemory, registerMemory } from './MemoryFactory';
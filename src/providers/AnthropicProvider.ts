@@ -1,4 +1,27 @@
-import { BaseProvider, BaseProviderConfig, ProviderMessage, ToolDefinition, ProviderResponse } from './BaseProvider';
+import z from 'zod';
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  Base64ImageSource,
+  ContentBlockParam,
+  MessageCreateParamsNonStreaming,
+  MessageParam,
+  Tool,
+  Usage as AnthropicUsage,
+} from '@anthropic-ai/sdk/resources/messages';
+import {
+  BaseProvider,
+  BaseProviderConfig,
+  ChatOptions,
+  ContentPart,
+  ProviderMessage,
+  ToolDefinition,
+  ProviderResponse,
+  ProviderStreamChunk,
+  ResponseFormat,
+  ThinkingBlock,
+  ToolCall,
+} from './BaseProvider';
+import { getMediaType } from '../utils/media';
 
 /**
  * Anthropic provider configuration
@@ -11,83 +34,441 @@ export interface AnthropicConfig extends BaseProviderConfig {
   maxTokens?: number;
   topP?: number;
   topK?: number;
+  /**
+   * Base URL of the Messages API (defaults to https://api.anthropic.com).
+   * Useful for proxies and local HTTP stubs in tests.
+   */
+  baseURL?: string;
 }
 
 /**
- * Anthropic provider implementation
+ * Anthropic provider implementation (Messages API)
  */
 export class AnthropicProvider extends BaseProvider {
+  private client: Anthropic;
+
   constructor(config: AnthropicConfig) {
     super(config);
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+      // Retries are handled by BaseProvider.withRetry
+      maxRetries: 0,
+    });
   }
 
-  async chat(messages: ProviderMessage[], tools?: ToolDefinition[]): Promise<ProviderResponse> {
-    // Mock implementation for now - replace with actual Anthropic integration
-    const lastMessage = messages[messages.length - 1];
+  async chat(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): Promise<ProviderResponse> {
+    const { value: response, retries } = await this.withRetry(
+      () =>
+        this.client.messages.create(this.buildRequest(messages, tools, options), {
+          headers: options?.headers,
+          signal: options?.signal,
+        }),
+      options?.signal
+    );
 
-    let toolCalls: any[] | undefined;
-    if (tools && tools.length > 0) {
-      const mentionedTool = tools.find(tool =>
-        lastMessage.content.toLowerCase().includes(tool.name.toLowerCase())
-      );
-
-      if (mentionedTool) {
-        toolCalls = [{
-          id: 'call_' + Date.now(),
+    let content = '';
+    let reasoning = '';
+    const toolCalls: ToolCall[] = [];
+    const thinkingBlocks: ThinkingBlock[] = [];
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        content += block.text;
+      } else if (block.type === 'thinking') {
+        reasoning += block.thinking;
+        thinkingBlocks.push({
+          type: 'thinking',
+          thinking: block.thinking,
+          signature: block.signature,
+        });
+      } else if (block.type === 'redacted_thinking') {
+        thinkingBlocks.push({ type: 'redacted_thinking', data: block.data });
+      } else if (block.type === 'tool_use' && options?.responseFormat) {
+        // Structured output is requested through a forced tool call; its input is the answer
+        const input = (block.input ?? {}) as Record<string, unknown>;
+        content = JSON.stringify(this.wrapsResponse(options.responseFormat) ? input.value : input);
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id,
           type: 'function',
           function: {
-            name: mentionedTool.name,
-            arguments: JSON.stringify({ task: 'sample task', priority: 'medium' }),
+            name: block.name,
+            arguments: JSON.stringify(block.input ?? {}),
           },
-        }];
+        });
       }
     }
 
     return {
-      content: `Mock response from ${this.config.model}: ${lastMessage.content.substring(0, 100)}...`,
-      toolCalls,
-      usage: {
-        promptTokens: 100,
-        completionTokens: 50,
-        totalTokens: 150,
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      reasoning: reasoning || undefined,
+      thinkingBlocks: thinkingBlocks.length > 0 ? thinkingBlocks : undefined,
+      usage: this.convertUsage(response.usage),
+      finishReason: this.mapStopReason(response.stop_reason),
+      retries,
+    };
+  }
+
+  async *chatStream(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): AsyncGenerator<ProviderStreamChunk> {
+    // Structured output arrives as forced tool input, so it is delivered whole
+    if (options?.responseFormat) {
+      yield* super.chatStream(messages, tools, options);
+      return;
+    }
+
+    // Only opening the stream is retried; a stream that fails midway cannot be resumed
+    const { value: stream, retries } = await this.withRetry(
+      () =>
+        this.client.messages.create(
+          {
+            ...this.buildRequest(messages, tools, options),
+            stream: true,
+          },
+          { headers: options?.headers, signal: options?.signal }
+        ),
+      options?.signal
+    );
+
+    let content = '';
+    let reasoning = '';
+    let stopReason: string | null = null;
+    let usage = { input_tokens: 0, output_tokens: 0 } as AnthropicUsage;
+    const toolCalls: ToolCall[] = [];
+    const thinkingBlocks: ThinkingBlock[] = [];
+    // Maps content block indexes to positions in toolCalls and thinkingBlocks
+    const toolCallIndexes = new Map<number, number>();
+    const thinkingIndexes = new Map<number, number>();
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'message_start':
+          usage = { ...event.message.usage };
+          break;
+
+        case 'content_block_start':
+          if (event.content_block.type === 'tool_use') {
+            toolCallIndexes.set(event.index, toolCalls.length);
+            toolCalls.push({
+              id: event.content_block.id,
+              type: 'function',
+              function: { name: event.content_block.name, arguments: '' },
+            });
+            yield {
+              type: 'tool_call',
+              index: toolCalls.length - 1,
+              id: event.content_block.id,
+              name: event.content_block.name,
+              argumentsDelta: '',
+            };
+          } else if (event.content_block.type === 'thinking') {
+            thinkingIndexes.set(event.index, thinkingBlocks.length);
+            thinkingBlocks.push({ type: 'thinking', thinking: '', signature: '' });
+          } else if (event.content_block.type === 'redacted_thinking') {
+            thinkingBlocks.push({ type: 'redacted_thinking', data: event.content_block.data });
+          }
+          break;
+
+        case 'content_block_delta':
+          if (event.delta.type === 'text_delta') {
+            content += event.delta.text;
+            yield { type: 'text', delta: event.delta.text };
+          } else if (event.delta.type === 'input_json_delta') {
+            const index = toolCallIndexes.get(event.index);
+            if (index !== undefined) {
+              toolCalls[index].function.arguments += event.delta.partial_json;
+              yield { type: 'tool_call', index, argumentsDelta: event.delta.partial_json };
+            }
+          } else if (
+            event.delta.type === 'thinking_delta' ||
+            event.delta.type === 'signature_delta'
+          ) {
+            const block = thinkingBlocks[thinkingIndexes.get(event.index) ?? -1];
+            if (block?.type !== 'thinking') break;
+            if (event.delta.type === 'signature_delta') {
+              block.signature += event.delta.signature;
+            } else {
+              block.thinking += event.delta.thinking;
+              reasoning += event.delta.thinking;
+              yield { type: 'reasoning', delta: event.delta.thinking };
+            }
+          }
+          break;
+
+        case 'message_delta':
+          stopReason = event.delta.stop_reason;
+          usage = { ...usage, output_tokens: event.usage.output_tokens };
+          break;
+      }
+    }
+
+    for (const toolCall of toolCalls) {
+      toolCall.function.arguments = toolCall.function.arguments || '{}';
+    }
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        reasoning: reasoning || undefined,
+        thinkingBlocks: thinkingBlocks.length > 0 ? thinkingBlocks : undefined,
+        usage: this.convertUsage(usage),
+        finishReason: this.mapStopReason(stopReason),
+        retries,
       },
-      finishReason: 'stop',
     };
   }
 
-  getSupportedModels(): string[] {
-    return [
-      'claude-3-opus-20240229',
-      'claude-3-sonnet-20240229',
-      'claude-3-haiku-20240307',
-      'claude-3-5-sonnet-20240620',
-      'claude-2.1',
-      'claude-2',
-      'claude-instant-1.2',
-    ];
+  /**
+   * Build the Messages API request body
+   */
+  private buildRequest(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): MessageCreateParamsNonStreaming {
+    // The Messages API takes system prompts as a top-level field rather than a message
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    // There is no JSON mode; structured output is requested as a forced call to a tool
+    // whose input schema is the response schema
+    const responseFormat = options?.responseFormat;
+    const anthropicTools = (tools ?? []).map(tool => this.convertTool(tool));
+    if (responseFormat) {
+      // Tool input must be an object, so other schemas are wrapped in a `value` property
+      anthropicTools.push({
+        name: responseFormat.name,
+        description: 'Respond with the final answer',
+        input_schema: this.wrapsResponse(responseFormat)
+          ? { type: 'object', properties: { value: responseFormat.schema }, required: ['value'] }
+          : { ...responseFormat.schema, type: 'object' },
+      });
+    }
+
+    // Extended thinking cannot be combined with a forced tool call, so structured output
+    // requests are sent without it. Thinking also rules out sampling settings.
+    const budgetTokens = responseFormat ? undefined : this.config.reasoning?.budgetTokens;
+    const thinking = budgetTokens !== undefined;
+
+    return {
+      model: this.config.model,
+      // max_tokens is required by the Messages API and must exceed the thinking budget
+      max_tokens: this.config.maxTokens ?? (thinking ? budgetTokens + 4096 : 4096),
+      system: system || undefined,
+      messages: this.convertMessagesToAnthropic(messages),
+      tools: anthropicTools.length > 0 ? anthropicTools : undefined,
+      tool_choice: responseFormat
+        ? { type: 'tool', name: responseFormat.name }
+        : options?.toolChoice === 'none' && anthropicTools.length > 0
+          ? { type: 'none' }
+          : undefined,
+      thinking: thinking ? { type: 'enabled', budget_tokens: budgetTokens } : undefined,
+      temperature: thinking ? undefined : this.config.temperature,
+      top_p: thinking ? undefined : this.config.topP,
+      top_k: thinking ? undefined : this.config.topK,
+    };
   }
 
-  private async getAnthropicClient() {
-    // Dynamic import to avoid requiring @anthropic-ai/sdk unless needed
-    const { Anthropic } = await import('@anthropic-ai/sdk');
-    return new Anthropic({
-      apiKey: this.config.apiKey,
-    });
+  /**
+   * Convert officeLLM messages to Anthropic format
+   *
+   * Assistant tool calls become `tool_use` blocks and tool messages become `tool_result`
+   * blocks in a user turn. Thinking blocks are replayed first in their assistant turn, as
+   * the API requires to continue thinking after tool use. Consecutive messages with the same role are merged, since
+   * the API expects user and assistant turns to alternate.
+   */
+  private convertMessagesToAnthropic(messages: ProviderMessage[]): MessageParam[] {
+    const anthropicMessages: Array<{ role: 'user' | 'assistant'; content: ContentBlockParam[] }> =
+      [];
+
+    const append = (role: 'user' | 'assistant', blocks: ContentBlockParam[]) => {
+      if (blocks.length === 0) return;
+      const previous = anthropicMessages[anthropicMessages.length - 1];
+      if (previous && previous.role === role) {
+        previous.content.push(...blocks);
+      } else {
+        anthropicMessages.push({ role, content: blocks });
+      }
+    };
+
+    for (const message of messages) {
+      switch (message.role) {
+        case 'system':
+          // Hoisted into the top-level system field
+          break;
+
+        case 'user': {
+          const blocks: ContentBlockParam[] =
+            message.content || !message.parts?.length
+              ? [{ type: 'text', text: message.content }]
+              : [];
+          append('user', [
+            ...blocks,
+            ...(message.parts ?? []).map(part => this.convertContentPart(part)),
+          ]);
+          break;
+        }
+
+        case 'assistant': {
+          const blocks: ContentBlockParam[] = [];
+          for (const block of message.thinkingBlocks ?? []) {
+            if (block.type === 'thinking') {
+              blocks.push({
+                type: 'thinking',
+                thinking: block.thinking,
+                signature: block.signature,
+              });
+            } else if (block.type === 'redacted_thinking') {
+              blocks.push({ type: 'redacted_thinking', data: block.data });
+            }
+          }
+          if (message.content) {
+            blocks.push({ type: 'text', text: message.content });
+          }
+          for (const toolCall of message.toolCalls ?? []) {
+            blocks.push({
+              type: 'tool_use',
+              id: toolCall.id,
+              name: toolCall.function.name,
+              input: JSON.parse(toolCall.function.arguments || '{}'),
+            });
+          }
+          append('assistant', blocks);
+          break;
+        }
+
+        case 'tool':
+          if (!message.toolCallId) {
+            throw new Error('Tool message is missing toolCallId');
+          }
+          append('user', [
+            {
+              type: 'tool_result',
+              tool_use_id: message.toolCallId,
+              content: message.content,
+            },
+          ]);
+          break;
+      }
+    }
+
+    return anthropicMessages;
+  }
+
+  private wrapsResponse(responseFormat: ResponseFormat): boolean {
+    return responseFormat.schema.type !== 'object';
   }
 
-  private zodToJsonSchema(schema: any): any {
-    // Simple conversion - in production, use zod-to-json-schema
-    try {
+  /**
+   * Convert a content part to an Anthropic content block
+   * Files become document blocks, which support PDF and plain text
+   */
+  private convertContentPart(part: ContentPart): ContentBlockParam {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
+    }
+
+    const { source } = part;
+    if (part.type === 'image') {
+      return source.type === 'url'
+        ? { type: 'image', source: { type: 'url', url: source.url } }
+        : {
+            type: 'image',
+            source: {
+              type: 'base64',
+              media_type: source.mediaType as Base64ImageSource['media_type'],
+              data: source.data,
+            },
+          };
+    }
+
+    const title = part.name;
+    if (source.type === 'url') {
+      return { type: 'document', source: { type: 'url', url: source.url }, title };
+    }
+    if (source.mediaType === 'application/pdf') {
       return {
-        type: 'object',
-        properties: {},
-        required: [],
+        type: 'document',
+        source: { type: 'base64', media_type: 'application/pdf', data: source.data },
+        title,
       };
-    } catch (error) {
+    }
+    if (getMediaType(source)?.startsWith('text/')) {
       return {
-        type: 'object',
-        properties: {},
+        type: 'document',
+        source: {
+          type: 'text',
+          media_type: 'text/plain',
+          data: Buffer.from(source.data, 'base64').toString('utf8'),
+        },
+        title,
       };
     }
+    throw new Error(`Anthropic does not support ${source.mediaType} files; use PDF or plain text`);
+  }
+
+  /**
+   * Convert a ToolDefinition with Zod parameters to an Anthropic tool
+   */
+  private convertTool(tool: ToolDefinition): Tool {
+    const schema = z.toJSONSchema(tool.parameters) as Record<string, any>;
+    delete schema.$schema;
+
+    return {
+      name: tool.name,
+      description: tool.description,
+      input_schema: {
+        ...schema,
+        type: 'object',
+      },
+    };
+  }
+
+  /**
+   * Convert Anthropic usage to the officeLLM usage shape
+   */
+  private convertUsage(usage: AnthropicUsage): ProviderResponse['usage'] {
+    // Cached prompt tokens are reported separately from input_tokens
+    const promptTokens =
+      usage.input_tokens +
+      (usage.cache_creation_input_tokens ?? 0) +
+      (usage.cache_read_input_tokens ?? 0);
+
+    return {
+      promptTokens,
+      completionTokens: usage.output_tokens,
+      totalTokens: promptTokens + usage.output_tokens,
+      cachedTokens: usage.cache_read_input_tokens ?? undefined,
+    };
+  }
+
+  /**
+   * Map Anthropic stop reasons to the finish reasons used by the other providers
+   */
+  private mapStopReason(stopReason: string | null): string {
+    switch (stopReason) {
+      case 'tool_use':
+        return 'tool_calls';
+      case 'max_tokens':
+        return 'length';
+      case 'end_turn':
+      case 'stop_sequence':
+      case null:
+        return 'stop';
+      default:
+        return stopReason;
+    }
   }
 }
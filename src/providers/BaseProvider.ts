@@ -1,9 +1,17 @@
 import { z } from 'zod';
+import { RetryConfig, RetryOutcome, retryWithBackoff } from '../utils/retry';
+import type { CassetteConfig } from './CassetteProvider';
+import type { ResponseCacheConfig } from './CachingProvider';
+import type { RateLimitConfig } from './RateLimitedProvider';
+import type { Tokenizer } from '../utils/tokens';
+import { getRegisteredModels } from './ModelCapabilities';
+import type { ModelPricing } from './ModelCapabilities';
+import type { ProviderMiddleware } from './MiddlewareProvider';
 
 /**
  * Supported provider types
  */
-export type ProviderType = 'openai' | 'anthropic' | 'gemini' | 'openrouter';
+export type ProviderType = 'openai' | 'anthropic' | 'gemini' | 'openrouter' | 'scripted';
 
 /**
  * Base configuration for all providers
@@ -14,17 +22,100 @@ export interface BaseProviderConfig {
   model: string;
   temperature?: number;
   maxTokens?: number;
+  /**
+   * Retry policy for transient failures (rate limits, 5xx, network errors)
+   */
+  retry?: RetryConfig;
+  /**
+   * Record this provider's traffic to a cassette file, or replay it from one
+   */
+  cassette?: CassetteConfig;
+  /**
+   * Serve identical requests from a response cache (opt-in)
+   */
+  cache?: ResponseCacheConfig;
+  /**
+   * Request and token limits shared by every provider using the same account
+   */
+  rateLimit?: RateLimitConfig;
+  /**
+   * Tokenizer used for token-based context windows (defaults to the one registered for the provider type)
+   */
+  tokenizer?: Tokenizer;
+  /**
+   * Prices for this provider's model, overriding the built-in pricing table
+   */
+  pricing?: ModelPricing;
+  /**
+   * Middleware run around every call to this provider, first one outermost
+   */
+  middleware?: ProviderMiddleware[];
+  /**
+   * Reasoning effort or thinking budget for models that reason before answering
+   */
+  reasoning?: ReasoningConfig;
   [key: string]: any; // Allow additional provider-specific config
 }
 
+/**
+ * Reasoning settings for a provider
+ *
+ * Each provider reads the setting its API understands: OpenAI-compatible servers send
+ * `effort` as `reasoning_effort`, Anthropic enables extended thinking with `budgetTokens`,
+ * and Gemini sets its thinking budget from `budgetTokens`.
+ */
+export interface ReasoningConfig {
+  effort?: 'minimal' | 'low' | 'medium' | 'high';
+  /**
+   * Maximum tokens the model may spend thinking
+   */
+  budgetTokens?: number;
+}
+
+/**
+ * Provider-specific reasoning block that must be sent back unchanged with the assistant turn
+ * it belongs to, such as Anthropic's signed thinking blocks or Gemini's thought signatures
+ */
+export type ThinkingBlock =
+  | { type: 'thinking'; thinking: string; signature: string }
+  | { type: 'redacted_thinking'; data: string }
+  | { type: 'thought_signature'; signature: string; toolCallId?: string };
+
+/**
+ * Binary content given inline as base64 data or by URL
+ */
+export type MediaSource =
+  | { type: 'base64'; mediaType: string; data: string }
+  | { type: 'url'; url: string; mediaType?: string };
+
+/**
+ * Part of a multimodal message
+ */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: MediaSource; name?: string; detail?: 'auto' | 'low' | 'high' }
+  | { type: 'file'; source: MediaSource; name?: string };
+
 /**
  * Message format for LLM providers
  */
 export interface ProviderMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  /**
+   * Images, files and additional text sent after `content` (user messages only)
+   */
+  parts?: ContentPart[];
   toolCalls?: ToolCall[];
   toolCallId?: string;
+  /**
+   * Reasoning the model produced before this assistant message
+   */
+  reasoning?: string;
+  /**
+   * Reasoning blocks returned with this assistant message, replayed on later turns
+   */
+  thinkingBlocks?: ThinkingBlock[];
 }
 
 /**
@@ -46,6 +137,50 @@ export interface ToolDefinition {
   name: string;
   description: string;
   parameters: z.ZodObject<any>;
+  /**
+   * Safe to run at the same time as other calls in the same response (default: false,
+   * so side-effecting tools run one at a time). Not sent to providers.
+   */
+  parallel?: boolean;
+  /**
+   * Time limit for one call of this tool, in milliseconds (default: the worker's toolTimeoutMs)
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Structured output requested from a provider
+ */
+export interface ResponseFormat {
+  type: 'json_schema';
+  name: string;
+  /**
+   * JSON schema the response must match
+   */
+  schema: Record<string, any>;
+}
+
+/**
+ * Per-request options for chat calls
+ */
+export interface ChatOptions {
+  /**
+   * Ask for a JSON response matching a schema, using the provider's native JSON mode
+   */
+  responseFormat?: ResponseFormat;
+  /**
+   * Whether the model may call the offered tools (default: 'auto'). With 'none' the tools
+   * are still sent, so the model keeps seeing their definitions, but it must answer in text.
+   */
+  toolChoice?: 'auto' | 'none';
+  /**
+   * Extra HTTP headers sent with this request
+   */
+  headers?: Record<string, string>;
+  /**
+   * Aborts the request, including any pending retries
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -54,14 +189,64 @@ export interface ToolDefinition {
 export interface ProviderResponse {
   content: string;
   toolCalls?: ToolCall[];
+  /**
+   * Reasoning text or summary, for models that expose it
+   */
+  reasoning?: string;
+  /**
+   * Reasoning blocks to keep on the assistant message so the provider can continue
+   * its reasoning after tool calls
+   */
+  thinkingBlocks?: ThinkingBlock[];
   usage?: {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    /**
+     * Prompt tokens read from the provider's prompt cache (included in promptTokens)
+     */
+    cachedTokens?: number;
+    /**
+     * Completion tokens spent on reasoning (included in completionTokens)
+     */
+    reasoningTokens?: number;
   };
   finishReason: string;
+  /**
+   * Number of retries needed before the request succeeded
+   */
+  retries?: number;
+  /**
+   * Provider that actually produced this response (set by fallback chains)
+   */
+  servedBy?: {
+    type: ProviderType;
+    model: string;
+    /**
+     * Price override from the serving provider's config
+     */
+    pricing?: ModelPricing;
+  };
+  /**
+   * True when the response was served from the response cache
+   */
+  cached?: boolean;
 }
 
+/**
+ * Incremental chunk emitted by a streaming chat completion
+ *
+ * Tool calls arrive as fragments keyed by `index`: the first fragment of a call carries
+ * its `id` and `name`, later fragments only append to the JSON arguments. Reasoning, when
+ * the model exposes it, arrives as `reasoning` chunks. Every stream ends with a `done`
+ * chunk holding the fully assembled response.
+ */
+export type ProviderStreamChunk =
+  | { type: 'text'; delta: string }
+  | { type: 'reasoning'; delta: string }
+  | { type: 'tool_call'; index: number; id?: string; name?: string; argumentsDelta: string }
+  | { type: 'done'; response: ProviderResponse };
+
 /**
  * Base provider interface
  */
@@ -74,16 +259,26 @@ export interface IProvider {
    */
   chat(
     messages: ProviderMessage[],
-    tools?: ToolDefinition[]
+    tools?: ToolDefinition[],
+    options?: ChatOptions
   ): Promise<ProviderResponse>;
 
+  /**
+   * Send a chat completion request and stream the response as it is generated
+   */
+  chatStream?(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): AsyncIterable<ProviderStreamChunk>;
+
   /**
    * Check if the provider is available (has valid API key, etc.)
    */
   isAvailable(): Promise<boolean>;
 
   /**
-   * Get the provider's supported models
+   * Get the provider's known models (see the model capability registry)
    */
   getSupportedModels(): string[];
 }
@@ -102,13 +297,63 @@ export abstract class BaseProvider implements IProvider {
 
   abstract chat(
     messages: ProviderMessage[],
-    tools?: ToolDefinition[]
+    tools?: ToolDefinition[],
+    options?: ChatOptions
   ): Promise<ProviderResponse>;
 
+  /**
+   * Default streaming implementation for providers without native streaming support:
+   * waits for chat() and emits the whole response at once
+   */
+  async *chatStream(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): AsyncGenerator<ProviderStreamChunk> {
+    const response = await this.chat(messages, tools, options);
+
+    if (response.reasoning) {
+      yield { type: 'reasoning', delta: response.reasoning };
+    }
+    if (response.content) {
+      yield { type: 'text', delta: response.content };
+    }
+
+    const toolCalls = response.toolCalls ?? [];
+    for (let index = 0; index < toolCalls.length; index++) {
+      yield {
+        type: 'tool_call',
+        index,
+        id: toolCalls[index].id,
+        name: toolCalls[index].function.name,
+        argumentsDelta: toolCalls[index].function.arguments,
+      };
+    }
+
+    yield { type: 'done', response };
+  }
+
+  /**
+   * Run a provider API call with the retry policy from `config.retry`
+   * Providers should wrap the network request (not response parsing) with this
+   */
+  protected withRetry<T>(
+    operation: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<RetryOutcome<T>> {
+    return retryWithBackoff(operation, this.config.retry, `PROVIDER:${this.type}`, signal);
+  }
+
   async isAvailable(): Promise<boolean> {
     // Basic check - can be overridden by specific providers
     return Boolean(this.config.apiKey);
   }
 
-  abstract getSupportedModels(): string[];
+  /**
+   * Models registered for this provider type in the capability registry
+   * Providers serving models the registry does not know can override this.
+   */
+  getSupportedModels(): string[] {
+    return getRegisteredModels(this.type);
+  }
 }
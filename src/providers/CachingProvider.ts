@@ -0,0 +1,201 @@
+import z from 'zod';
+import { createHash } from 'crypto';
+import {
+  IProvider,
+  BaseProviderConfig,
+  ChatOptions,
+  ProviderMessage,
+  ToolDefinition,
+  ProviderResponse,
+  ProviderStreamChunk,
+  ProviderType,
+} from './BaseProvider';
+import { CacheConfig, CacheFactory, ICache } from '../cache';
+import { logger } from '../utils/logger';
+
+/**
+ * Response cache options for a provider
+ */
+export interface ResponseCacheConfig {
+  /**
+   * Cache backend: a configuration (identical configurations share one backend
+   * process-wide) or a cache instance
+   */
+  backend: CacheConfig | ICache;
+  /**
+   * Time to live for responses cached by this provider, in seconds (defaults to the backend TTL)
+   */
+  ttl?: number;
+}
+
+/**
+ * Provider config keys that change the generated output and therefore belong in the cache key
+ */
+const SAMPLING_KEYS = [
+  'temperature',
+  'maxTokens',
+  'topP',
+  'topK',
+  'frequencyPenalty',
+  'presencePenalty',
+  'safetySettings',
+  'reasoning',
+  'baseURL',
+];
+
+/**
+ * Provider wrapper that serves identical requests from a response cache
+ *
+ * Created automatically by ProviderFactory when a provider config has a `cache` option.
+ * Responses served from the cache carry `cached: true`.
+ */
+export class CachingProvider implements IProvider {
+  public readonly type: ProviderType;
+  public readonly config: BaseProviderConfig;
+  private provider: IProvider;
+  private cache: ICache;
+  private ttl?: number;
+
+  constructor(provider: IProvider, cacheConfig: ResponseCacheConfig) {
+    this.provider = provider;
+    this.type = provider.type;
+    this.config = provider.config;
+    this.cache = isCache(cacheConfig.backend)
+      ? cacheConfig.backend
+      : CacheFactory.getShared(cacheConfig.backend);
+    this.ttl = cacheConfig.ttl;
+  }
+
+  async chat(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): Promise<ProviderResponse> {
+    const key = this.getCacheKey(messages, tools, options);
+
+    const cached = await this.lookup(key);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.provider.chat(messages, tools, options);
+    await this.store(key, response);
+    return response;
+  }
+
+  async *chatStream(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): AsyncGenerator<ProviderStreamChunk> {
+    const key = this.getCacheKey(messages, tools, options);
+
+    const cached = await this.lookup(key);
+    if (cached) {
+      if (cached.content) {
+        yield { type: 'text', delta: cached.content };
+      }
+      yield { type: 'done', response: cached };
+      return;
+    }
+
+    if (!this.provider.chatStream) {
+      const response = await this.provider.chat(messages, tools, options);
+      await this.store(key, response);
+      if (response.content) {
+        yield { type: 'text', delta: response.content };
+      }
+      yield { type: 'done', response };
+      return;
+    }
+
+    for await (const chunk of this.provider.chatStream(messages, tools, options)) {
+      if (chunk.type === 'done') {
+        await this.store(key, chunk.response);
+      }
+      yield chunk;
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.provider.isAvailable();
+  }
+
+  getSupportedModels(): string[] {
+    return this.provider.getSupportedModels();
+  }
+
+  /**
+   * Build the cache key from provider type, model, sampling params, messages, tool schemas and response format
+   */
+  private getCacheKey(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): string {
+    const sampling: Record<string, any> = {};
+    for (const key of SAMPLING_KEYS) {
+      if (this.config[key] !== undefined) {
+        sampling[key] = this.config[key];
+      }
+    }
+
+    const payload = {
+      type: this.type,
+      model: this.config.model,
+      sampling,
+      messages: messages.map(message => ({
+        role: message.role,
+        content: message.content,
+        parts: message.parts,
+        toolCalls: message.toolCalls,
+        toolCallId: message.toolCallId,
+        // Sent back to providers that check them, such as signed thinking blocks
+        thinkingBlocks: message.thinkingBlocks,
+      })),
+      tools: (tools ?? []).map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: z.toJSONSchema(tool.parameters),
+      })),
+      responseFormat: options?.responseFormat,
+      toolChoice: options?.toolChoice,
+    };
+
+    return createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+  }
+
+  /**
+   * Read a response from the cache; cache failures are logged and treated as misses
+   */
+  private async lookup(key: string): Promise<ProviderResponse | null> {
+    try {
+      const cached = await this.cache.get(key);
+      if (cached) {
+        logger.debug(`CACHE:${this.type}`, `Cache hit for ${this.config.model}`);
+        return { ...cached, cached: true, retries: 0 };
+      }
+    } catch (error) {
+      logger.warn(`CACHE:${this.type}`, 'Cache lookup failed, calling provider', error);
+    }
+    return null;
+  }
+
+  /**
+   * Write a response to the cache; cache failures are logged and ignored
+   */
+  private async store(key: string, response: ProviderResponse): Promise<void> {
+    try {
+      const cacheable = { ...response };
+      delete cacheable.cached;
+      delete cacheable.retries;
+      await this.cache.set(key, cacheable, this.ttl);
+    } catch (error) {
+      logger.warn(`CACHE:${this.type}`, 'Failed to store response in cache', error);
+    }
+  }
+}
+
+function isCache(backend: CacheConfig | ICache): backend is ICache {
+  return typeof (backend as ICache).get === 'function';
+}
@@ -0,0 +1,312 @@
+import z from 'zod';
+import { createHash } from 'crypto';
+import { promises as fs, existsSync } from 'fs';
+import { dirname } from 'path';
+import {
+  IProvider,
+  BaseProviderConfig,
+  ChatOptions,
+  ProviderMessage,
+  ToolDefinition,
+  ProviderResponse,
+  ProviderStreamChunk,
+  ProviderType,
+} from './BaseProvider';
+import { logger } from '../utils/logger';
+
+/**
+ * Cassette configuration for recording and replaying provider traffic
+ */
+export interface CassetteConfig {
+  /**
+   * Path of the cassette file. Use one file per agent provider.
+   */
+  path: string;
+  /**
+   * - `record`: call the real provider and write every interaction to the cassette
+   * - `replay`: serve recorded responses without calling the provider
+   * - `auto`: replay when the cassette file exists, record otherwise
+   *
+   * Default: 'replay'
+   */
+  mode?: 'record' | 'replay' | 'auto';
+  /**
+   * Fail when a replayed request differs from the recorded one. Default: true
+   */
+  matchRequests?: boolean;
+}
+
+/**
+ * A recorded request/response pair
+ */
+export interface CassetteInteraction {
+  request: {
+    messages: ProviderMessage[];
+    tools: string[];
+    toolsHash: string;
+    /**
+     * Name of the structured output format, if one was requested
+     */
+    responseFormat?: string;
+    /**
+     * Tool choice, if the request restricted it
+     */
+    toolChoice?: ChatOptions['toolChoice'];
+  };
+  response: ProviderResponse;
+}
+
+/**
+ * Cassette file contents
+ */
+export interface Cassette {
+  version: 1;
+  provider: ProviderType;
+  model: string;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Raised when a replayed request does not match the cassette
+ */
+export class CassetteMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/**
+ * Provider wrapper that records chat traffic to a cassette file or replays it
+ *
+ * Created automatically by ProviderFactory when a provider config has a `cassette` option,
+ * so it works with every registered provider type.
+ */
+export class CassetteProvider implements IProvider {
+  public readonly type: ProviderType;
+  public readonly config: BaseProviderConfig;
+  private provider: IProvider;
+  private cassetteConfig: CassetteConfig;
+  private mode: 'record' | 'replay';
+  private cassette: Cassette | null = null;
+  private position = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(provider: IProvider, cassetteConfig: CassetteConfig) {
+    this.provider = provider;
+    this.type = provider.type;
+    this.config = provider.config;
+    this.cassetteConfig = cassetteConfig;
+
+    const mode = cassetteConfig.mode ?? 'replay';
+    this.mode = mode === 'auto' ? (existsSync(cassetteConfig.path) ? 'replay' : 'record') : mode;
+    logger.info(
+      `CASSETTE:${this.type}`,
+      `${this.mode === 'record' ? 'Recording to' : 'Replaying from'} ${cassetteConfig.path}`
+    );
+  }
+
+  async chat(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): Promise<ProviderResponse> {
+    if (this.mode === 'replay') {
+      return this.replay(messages, tools, options);
+    }
+
+    const response = await this.provider.chat(messages, tools, options);
+    await this.record(messages, tools, options, response);
+    return response;
+  }
+
+  async *chatStream(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): AsyncGenerator<ProviderStreamChunk> {
+    if (this.mode === 'replay') {
+      const response = await this.replay(messages, tools, options);
+      if (response.content) {
+        yield { type: 'text', delta: response.content };
+      }
+      yield { type: 'done', response };
+      return;
+    }
+
+    if (!this.provider.chatStream) {
+      const response = await this.chat(messages, tools, options);
+      if (response.content) {
+        yield { type: 'text', delta: response.content };
+      }
+      yield { type: 'done', response };
+      return;
+    }
+
+    for await (const chunk of this.provider.chatStream(messages, tools, options)) {
+      if (chunk.type === 'done') {
+        await this.record(messages, tools, options, chunk.response);
+      }
+      yield chunk;
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.mode === 'replay' ? true : this.provider.isAvailable();
+  }
+
+  getSupportedModels(): string[] {
+    return this.provider.getSupportedModels();
+  }
+
+  /**
+   * Number of recorded interactions not yet replayed
+   */
+  remaining(): number {
+    return this.cassette ? this.cassette.interactions.length - this.position : 0;
+  }
+
+  /**
+   * Serve the next recorded response, checking that the request matches the recording
+   */
+  private async replay(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): Promise<ProviderResponse> {
+    const cassette = await this.load();
+    const index = this.position;
+    const interaction = cassette.interactions[index];
+
+    if (!interaction) {
+      throw new CassetteMismatchError(
+        `Cassette ${this.cassetteConfig.path} has no interaction #${index + 1} (only ${cassette.interactions.length} recorded). Re-record the cassette.`
+      );
+    }
+
+    if (this.cassetteConfig.matchRequests !== false) {
+      const request = this.serializeRequest(messages, tools, options);
+
+      if (request.toolsHash !== interaction.request.toolsHash) {
+        throw new CassetteMismatchError(
+          `Cassette ${this.cassetteConfig.path} interaction #${index + 1}: tool schemas changed ` +
+            `(recorded [${interaction.request.tools.join(', ')}], got [${request.tools.join(', ')}])`
+        );
+      }
+
+      if (request.responseFormat !== interaction.request.responseFormat) {
+        throw new CassetteMismatchError(
+          `Cassette ${this.cassetteConfig.path} interaction #${index + 1}: response format changed ` +
+            `(recorded ${interaction.request.responseFormat ?? 'none'}, got ${request.responseFormat ?? 'none'})`
+        );
+      }
+
+      if (request.toolChoice !== interaction.request.toolChoice) {
+        throw new CassetteMismatchError(
+          `Cassette ${this.cassetteConfig.path} interaction #${index + 1}: tool choice changed ` +
+            `(recorded ${interaction.request.toolChoice ?? 'auto'}, got ${request.toolChoice ?? 'auto'})`
+        );
+      }
+
+      const recordedMessages = interaction.request.messages;
+      const mismatch = request.messages.findIndex(
+        (message, i) => JSON.stringify(message) !== JSON.stringify(recordedMessages[i])
+      );
+      if (mismatch !== -1 || request.messages.length !== recordedMessages.length) {
+        const at =
+          mismatch !== -1 ? mismatch : Math.min(request.messages.length, recordedMessages.length);
+        throw new CassetteMismatchError(
+          `Cassette ${this.cassetteConfig.path} interaction #${index + 1}: request differs at message ${at + 1}.\n` +
+            `Recorded: ${JSON.stringify(recordedMessages[at] ?? null)}\n` +
+            `Actual:   ${JSON.stringify(request.messages[at] ?? null)}`
+        );
+      }
+    }
+
+    this.position++;
+    // Hand out a copy so callers cannot alter the loaded cassette
+    return JSON.parse(JSON.stringify(interaction.response));
+  }
+
+  /**
+   * Append an interaction to the cassette and write it to disk
+   */
+  private async record(
+    messages: ProviderMessage[],
+    tools: ToolDefinition[] | undefined,
+    options: ChatOptions | undefined,
+    response: ProviderResponse
+  ): Promise<void> {
+    if (!this.cassette) {
+      this.cassette = {
+        version: 1,
+        provider: this.type,
+        model: this.config.model,
+        recordedAt: new Date().toISOString(),
+        interactions: [],
+      };
+    }
+
+    this.cassette.interactions.push({
+      request: this.serializeRequest(messages, tools, options),
+      response,
+    });
+
+    // Writes are serialized so concurrent calls cannot interleave partial files
+    const contents = JSON.stringify(this.cassette, null, 2);
+    this.writeQueue = this.writeQueue.then(async () => {
+      await fs.mkdir(dirname(this.cassetteConfig.path), { recursive: true });
+      await fs.writeFile(this.cassetteConfig.path, contents, 'utf8');
+    });
+    await this.writeQueue;
+  }
+
+  private async load(): Promise<Cassette> {
+    if (!this.cassette) {
+      let contents: string;
+      try {
+        contents = await fs.readFile(this.cassetteConfig.path, 'utf8');
+      } catch (error) {
+        throw new CassetteMismatchError(
+          `Cassette ${this.cassetteConfig.path} could not be read: ${error instanceof Error ? error.message : 'Unknown error'}. Record it first with mode 'record'.`
+        );
+      }
+      this.cassette = JSON.parse(contents) as Cassette;
+    }
+    return this.cassette;
+  }
+
+  /**
+   * Normalize a request so recorded and replayed requests compare equal
+   */
+  private serializeRequest(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): CassetteInteraction['request'] {
+    const toolSchemas = (tools ?? []).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: z.toJSONSchema(tool.parameters),
+    }));
+
+    return {
+      messages: messages.map(message =>
+        JSON.parse(
+          JSON.stringify({
+            role: message.role,
+            content: message.content,
+            parts: message.parts,
+            toolCalls: message.toolCalls,
+            toolCallId: message.toolCallId,
+          })
+        )
+      ),
+      tools: toolSchemas.map(tool => tool.name),
+      toolsHash: createHash('sha256').update(JSON.stringify(toolSchemas)).digest('hex'),
+      responseFormat: options?.responseFormat?.name,
+      toolChoice: options?.toolChoice,
+    };
+  }
+}
@@ -0,0 +1,289 @@
+import {
+  IProvider,
+  BaseProviderConfig,
+  ChatOptions,
+  ProviderMessage,
+  ToolDefinition,
+  ProviderResponse,
+  ProviderStreamChunk,
+  ProviderType,
+} from './BaseProvider';
+import { logger } from '../utils/logger';
+
+/**
+ * Policy deciding when a fallback chain moves on to the next provider
+ */
+export interface FallbackPolicy {
+  /**
+   * Fall back when a provider call fails (after that provider's own retries). Default: true
+   */
+  onError?: boolean;
+  /**
+   * Fall back when a provider takes longer than this many milliseconds to respond
+   * (for streams: to produce its first chunk). The slow request is aborted.
+   */
+  timeoutMs?: number;
+  /**
+   * Skip providers whose isAvailable() check fails. Default: false, since some
+   * providers (e.g. Gemini) make a real API request to check availability
+   */
+  checkAvailability?: boolean;
+  /**
+   * How long an availability check result is reused, in milliseconds. Default: 60000
+   */
+  availabilityTtlMs?: number;
+}
+
+/**
+ * Raised when a provider exceeds the fallback policy timeout
+ */
+class FallbackTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FallbackTimeoutError';
+  }
+}
+
+/**
+ * Provider that tries an ordered list of providers until one succeeds
+ *
+ * The first provider is the primary one; `type` and `config` reflect it. Every response
+ * carries `servedBy` so callers can tell which provider actually answered.
+ */
+export class FallbackProvider implements IProvider {
+  public readonly type: ProviderType;
+  public readonly config: BaseProviderConfig;
+  private providers: IProvider[];
+  private policy: FallbackPolicy;
+  private availability = new Map<IProvider, { available: boolean; checkedAt: number }>();
+
+  constructor(providers: IProvider[], policy: FallbackPolicy = {}) {
+    if (providers.length === 0) {
+      throw new Error('FallbackProvider requires at least one provider');
+    }
+    this.providers = providers;
+    this.policy = policy;
+    this.type = providers[0].type;
+    this.config = providers[0].config;
+  }
+
+  async chat(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): Promise<ProviderResponse> {
+    let lastError: unknown;
+
+    for (const provider of await this.getCandidates()) {
+      const attempt = this.createAttempt(options);
+      try {
+        const response = await this.withTimeout(
+          provider.chat(messages, tools, attempt.options),
+          provider,
+          attempt.controller
+        );
+        return { ...response, servedBy: response.servedBy ?? this.describe(provider) };
+      } catch (error) {
+        lastError = error;
+        // A cancelled request is not a provider failure
+        if (
+          options?.signal?.aborted ||
+          (this.policy.onError === false && !(error instanceof FallbackTimeoutError))
+        ) {
+          throw error;
+        }
+        this.logFailure(provider, error);
+      } finally {
+        attempt.dispose();
+      }
+    }
+
+    throw this.exhaustedError(lastError);
+  }
+
+  async *chatStream(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): AsyncGenerator<ProviderStreamChunk> {
+    let lastError: unknown;
+
+    for (const provider of await this.getCandidates()) {
+      const attempt = this.createAttempt(options);
+      const stream = provider.chatStream
+        ? provider.chatStream(messages, tools, attempt.options)[Symbol.asyncIterator]()
+        : this.singleChunkStream(provider, messages, tools, attempt.options);
+
+      // Falling back is only possible until the first chunk has been emitted
+      let first: IteratorResult<ProviderStreamChunk>;
+      try {
+        first = await this.withTimeout(stream.next(), provider, attempt.controller);
+      } catch (error) {
+        attempt.dispose();
+        // Close the abandoned stream; it finishes once its pending read settles
+        stream.return?.(undefined).catch(() => {});
+        lastError = error;
+        if (
+          options?.signal?.aborted ||
+          (this.policy.onError === false && !(error instanceof FallbackTimeoutError))
+        ) {
+          throw error;
+        }
+        this.logFailure(provider, error);
+        continue;
+      }
+
+      const servedBy = this.describe(provider);
+      try {
+        for (let next = first; !next.done; next = await stream.next()) {
+          const chunk = next.value;
+          if (chunk.type === 'done') {
+            yield {
+              type: 'done',
+              response: { ...chunk.response, servedBy: chunk.response.servedBy ?? servedBy },
+            };
+          } else {
+            yield chunk;
+          }
+        }
+      } finally {
+        attempt.dispose();
+        // Close the provider's stream when the consumer stops reading early
+        await stream.return?.(undefined);
+      }
+      return;
+    }
+
+    throw this.exhaustedError(lastError);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    for (const provider of this.providers) {
+      if (await provider.isAvailable()) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  getSupportedModels(): string[] {
+    return Array.from(new Set(this.providers.flatMap(provider => provider.getSupportedModels())));
+  }
+
+  /**
+   * Providers to try, in order, after applying availability checks
+   */
+  private async getCandidates(): Promise<IProvider[]> {
+    if (!this.policy.checkAvailability) {
+      return this.providers;
+    }
+
+    const ttl = this.policy.availabilityTtlMs ?? 60000;
+    const candidates: IProvider[] = [];
+    for (const provider of this.providers) {
+      let cached = this.availability.get(provider);
+      if (!cached || Date.now() - cached.checkedAt > ttl) {
+        const available = await provider.isAvailable().catch(() => false);
+        cached = { available, checkedAt: Date.now() };
+        this.availability.set(provider, cached);
+      }
+
+      if (cached.available) {
+        candidates.push(provider);
+      } else {
+        logger.warn('PROVIDER:fallback', `Skipping unavailable provider ${this.label(provider)}`);
+      }
+    }
+    return candidates;
+  }
+
+  private async *singleChunkStream(
+    provider: IProvider,
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): AsyncGenerator<ProviderStreamChunk> {
+    const response = await provider.chat(messages, tools, options);
+    if (response.content) {
+      yield { type: 'text', delta: response.content };
+    }
+    yield { type: 'done', response };
+  }
+
+  /**
+   * Options for one provider attempt
+   * With a timeout policy, the attempt gets its own signal that follows the caller's and is
+   * aborted on timeout, so a request that is given up on stops instead of running on.
+   */
+  private createAttempt(options?: ChatOptions): {
+    options?: ChatOptions;
+    controller?: AbortController;
+    dispose: () => void;
+  } {
+    if (!this.policy.timeoutMs) {
+      return { options, dispose: () => {} };
+    }
+
+    const signal = options?.signal;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    return {
+      options: { ...options, signal: controller.signal },
+      controller,
+      dispose: () => signal?.removeEventListener('abort', onAbort),
+    };
+  }
+
+  private withTimeout<T>(
+    promise: Promise<T>,
+    provider: IProvider,
+    controller?: AbortController
+  ): Promise<T> {
+    const timeoutMs = this.policy.timeoutMs;
+    if (!timeoutMs) {
+      return promise;
+    }
+
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new FallbackTimeoutError(
+          `${this.label(provider)} did not respond within ${timeoutMs}ms`
+        );
+        controller?.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private describe(provider: IProvider): NonNullable<ProviderResponse['servedBy']> {
+    return { type: provider.type, model: provider.config.model, pricing: provider.config.pricing };
+  }
+
+  private label(provider: IProvider): string {
+    return `${provider.type}/${provider.config.model}`;
+  }
+
+  private logFailure(provider: IProvider, error: unknown): void {
+    const index = this.providers.indexOf(provider);
+    const next = this.providers[index + 1];
+    logger.warn(
+      'PROVIDER:fallback',
+      `${this.label(provider)} failed: ${error instanceof Error ? error.message : 'Unknown error'}` +
+        (next ? `; falling back to ${this.label(next)}` : '')
+    );
+  }
+
+  private exhaustedError(lastError: unknown): Error {
+    const chain = this.providers.map(provider => this.label(provider)).join(' → ');
+    const reason = lastError instanceof Error ? lastError.message : 'no provider was available';
+    return new Error(`All providers in fallback chain failed (${chain}): ${reason}`);
+  }
+}
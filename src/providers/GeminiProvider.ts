@@ -1,6 +1,48 @@
 import z from 'zod';
-import { BaseProvider, BaseProviderConfig, ProviderMessage, ToolDefinition, ProviderResponse, ToolCall } from './BaseProvider';
-import { GoogleGenerativeAI, GenerativeModel, SchemaType, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
+import { createHash } from 'crypto';
+import {
+  BaseProvider,
+  BaseProviderConfig,
+  ChatOptions,
+  ContentPart,
+  ProviderMessage,
+  ToolDefinition,
+  ProviderResponse,
+  ProviderStreamChunk,
+  ThinkingBlock,
+  ToolCall,
+} from './BaseProvider';
+import { getMediaType } from '../utils/media';
+import {
+  GoogleGenerativeAI,
+  SchemaType,
+  FunctionCallingMode,
+  HarmCategory,
+  HarmBlockThreshold,
+  Content,
+  FunctionCall,
+  GenerateContentCandidate,
+  GenerateContentRequest,
+  GenerateContentResponse,
+  GenerativeModel,
+  Part,
+  SafetyRating,
+  UsageMetadata,
+} from '@google/generative-ai';
+
+/**
+ * Part fields for thinking models, which the SDK types do not include yet
+ */
+type ThoughtPart = Part & {
+  /**
+   * True when the part holds a thought summary rather than answer text
+   */
+  thought?: boolean;
+  /**
+   * Opaque signature of the model's thinking, returned with the part it was attached to
+   */
+  thoughtSignature?: string;
+};
 
 /**
  * Gemini provider configuration
@@ -19,81 +61,348 @@ export interface GeminiConfig extends BaseProviderConfig {
   }>;
 }
 
+/**
+ * Raised when Gemini blocks a prompt or stops a response for safety or policy reasons
+ */
+export class GeminiBlockedError extends Error {
+  constructor(
+    message: string,
+    /**
+     * Whether the prompt was rejected or the response was stopped
+     */
+    public readonly blocked: 'prompt' | 'response',
+    /**
+     * Block reason of the prompt or finish reason of the response (e.g. SAFETY, RECITATION)
+     */
+    public readonly reason: string,
+    public readonly safetyRatings: SafetyRating[] = []
+  ) {
+    super(message);
+    this.name = 'GeminiBlockedError';
+  }
+}
+
+/**
+ * Finish reasons meaning the response was withheld rather than completed
+ */
+const BLOCKED_FINISH_REASONS = [
+  'SAFETY',
+  'RECITATION',
+  'LANGUAGE',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+];
+
 /**
  * Gemini provider implementation
  */
 export class GeminiProvider extends BaseProvider {
   private client: GoogleGenerativeAI;
-  private model: GenerativeModel | null = null;
 
   constructor(config: GeminiConfig) {
     super(config);
     this.client = new GoogleGenerativeAI(config.apiKey);
   }
 
-  async chat(messages: ProviderMessage[], tools?: ToolDefinition[]): Promise<ProviderResponse> {
+  async chat(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): Promise<ProviderResponse> {
     try {
-      // Get or create the model with tools if provided
-      this.model = this.client.getGenerativeModel({
-        model: this.config.model,
-        generationConfig: {
-          temperature: this.config.temperature ?? 0.7,
-          maxOutputTokens: this.config.maxTokens ?? 2048,
-          topP: this.config.topP ?? 0.8,
-          topK: this.config.topK ?? 10,
-        },
-        tools: tools && tools.length > 0 ? [{
-          functionDeclarations: tools.map(tool => this.convertToolToFunctionDeclaration(tool))
-        }] : undefined,
-      });
-
-      // Convert messages to Gemini format
-      const geminiMessages = this.convertMessagesToGemini(messages);
-
-      // Start chat with history
-      const chat = this.model.startChat({
-        history: geminiMessages.slice(0, -1), // All but the last message go to history
-      });
-
-      // Send the last message
-      const lastMessage = geminiMessages[geminiMessages.length - 1];
-      const result = await chat.sendMessage(lastMessage.parts);
-
-      const response = result.response;
-      const text = response.text();
-
-      // Extract tool calls if any
-      let toolCalls: ToolCall[] | undefined;
-      const functionCalls = response.functionCalls();
-      if (functionCalls && functionCalls.length > 0) {
-        toolCalls = functionCalls.map(call => ({
-          id: `call_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-          type: 'function' as const,
-          function: {
-            name: call.name,
-            arguments: JSON.stringify(call.args),
-          },
-        }));
+      const { value: result, retries } = await this.withRetry(() => {
+        const { model, request } = this.buildRequest(messages, tools, options);
+        return model.generateContent(request, {
+          customHeaders: options?.headers,
+          signal: options?.signal,
+        });
+      }, options?.signal);
+
+      return { ...this.convertResponse(result.response, messages), retries };
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+  }
+
+  async *chatStream(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): AsyncGenerator<ProviderStreamChunk> {
+    try {
+      // Only opening the stream is retried; a stream that fails midway cannot be resumed
+      const { value: result, retries } = await this.withRetry(() => {
+        const { model, request } = this.buildRequest(messages, tools, options);
+        return model.generateContentStream(request, {
+          customHeaders: options?.headers,
+          signal: options?.signal,
+        });
+      }, options?.signal);
+
+      const chunks: GenerateContentResponse[] = [];
+      for await (const chunk of result.stream) {
+        this.assertNotBlocked(chunk);
+        chunks.push(chunk);
+        const reasoning = this.extractText(chunk, true);
+        if (reasoning) {
+          yield { type: 'reasoning', delta: reasoning };
+        }
+        const delta = this.extractText(chunk);
+        if (delta) {
+          yield { type: 'text', delta };
+        }
       }
 
-      // Extract usage information
-      const usage = {
-        promptTokens: response.usageMetadata?.promptTokenCount ?? 0,
-        completionTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
-        totalTokens: response.usageMetadata?.totalTokenCount ?? 0,
+      // Gemini delivers function calls whole, so they are emitted once the response is complete
+      const response = {
+        ...this.convertResponse(this.mergeChunks(chunks), messages),
+        retries,
       };
+      const toolCalls = response.toolCalls ?? [];
+      for (let index = 0; index < toolCalls.length; index++) {
+        yield {
+          type: 'tool_call',
+          index,
+          id: toolCalls[index].id,
+          name: toolCalls[index].function.name,
+          argumentsDelta: toolCalls[index].function.arguments,
+        };
+      }
 
-      return {
-        content: text,
-        toolCalls,
-        usage,
-        finishReason: response.candidates?.[0]?.finishReason ?? 'stop',
-      };
+      yield { type: 'done', response };
     } catch (error) {
-      throw new Error(`Gemini API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw this.wrapError(error);
     }
   }
 
+  /**
+   * Create the model and the generateContent request
+   * System messages become the system instruction; the rest of the conversation is sent as contents
+   */
+  private buildRequest(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): { model: GenerativeModel; request: GenerateContentRequest } {
+    const responseFormat = options?.responseFormat;
+
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    // Thought summaries are requested whenever a thinking budget is set
+    const budgetTokens = this.config.reasoning?.budgetTokens;
+    const thinkingConfig =
+      budgetTokens !== undefined
+        ? { thinkingBudget: budgetTokens, includeThoughts: true }
+        : undefined;
+
+    const model = this.client.getGenerativeModel({
+      model: this.config.model,
+      systemInstruction: system || undefined,
+      generationConfig: {
+        // Not in the SDK types yet; the API accepts it on thinking models
+        ...({ thinkingConfig } as object),
+        temperature: this.config.temperature ?? 0.7,
+        maxOutputTokens: this.config.maxTokens ?? 2048,
+        topP: this.config.topP ?? 0.8,
+        topK: this.config.topK ?? 10,
+        // JSON mode with a response schema for structured output
+        responseMimeType: responseFormat ? 'application/json' : undefined,
+        responseSchema: responseFormat
+          ? this.cleanSchemaForGemini(responseFormat.schema)
+          : undefined,
+      },
+      safetySettings: this.config.safetySettings,
+      tools:
+        tools && tools.length > 0
+          ? [
+              {
+                functionDeclarations: tools.map(tool =>
+                  this.convertToolToFunctionDeclaration(tool)
+                ),
+              },
+            ]
+          : undefined,
+      toolConfig:
+        options?.toolChoice === 'none' && tools && tools.length > 0
+          ? { functionCallingConfig: { mode: FunctionCallingMode.NONE } }
+          : undefined,
+    });
+
+    return { model, request: { contents: this.convertMessagesToGemini(messages) } };
+  }
+
+  /**
+   * Convert a Gemini response to the officeLLM response format
+   * The request messages number the turn, which is part of the derived tool call ids.
+   */
+  private convertResponse(
+    response: GenerateContentResponse,
+    messages: ProviderMessage[]
+  ): ProviderResponse {
+    this.assertNotBlocked(response);
+    const turn = messages.filter(message => message.role === 'assistant').length + 1;
+
+    // Every function call in the candidate is returned, so parallel calls are kept together.
+    // Thought signatures are kept with the call (or text) they were attached to.
+    const toolCalls: ToolCall[] = [];
+    const thinkingBlocks: ThinkingBlock[] = [];
+    for (const part of (response.candidates?.[0]?.content?.parts ?? []) as ThoughtPart[]) {
+      let toolCallId: string | undefined;
+      if (part.functionCall) {
+        toolCallId = this.toolCallId(part.functionCall, turn, toolCalls.length);
+        toolCalls.push({
+          id: toolCallId,
+          type: 'function',
+          function: {
+            name: part.functionCall.name,
+            arguments: JSON.stringify(part.functionCall.args ?? {}),
+          },
+        });
+      }
+      if (part.thoughtSignature) {
+        thinkingBlocks.push({
+          type: 'thought_signature',
+          signature: part.thoughtSignature,
+          toolCallId,
+        });
+      }
+    }
+
+    // Thinking tokens are reported separately from candidate tokens
+    const usageMetadata = response.usageMetadata as
+      | (UsageMetadata & { thoughtsTokenCount?: number })
+      | undefined;
+    const reasoningTokens = usageMetadata?.thoughtsTokenCount;
+    const usage = {
+      promptTokens: usageMetadata?.promptTokenCount ?? 0,
+      completionTokens: (usageMetadata?.candidatesTokenCount ?? 0) + (reasoningTokens ?? 0),
+      totalTokens: usageMetadata?.totalTokenCount ?? 0,
+      cachedTokens: usageMetadata?.cachedContentTokenCount,
+      reasoningTokens,
+    };
+
+    return {
+      content: this.extractText(response),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      reasoning: this.extractText(response, true) || undefined,
+      thinkingBlocks: thinkingBlocks.length > 0 ? thinkingBlocks : undefined,
+      usage,
+      finishReason:
+        toolCalls.length > 0
+          ? 'tool_calls'
+          : this.mapFinishReason(response.candidates?.[0]?.finishReason),
+    };
+  }
+
+  /**
+   * Concatenate the answer text (or, with `thought`, the thought summaries) of the first candidate
+   */
+  private extractText(response: GenerateContentResponse, thought = false): string {
+    return ((response.candidates?.[0]?.content?.parts ?? []) as ThoughtPart[])
+      .filter(part => Boolean(part.thought) === thought)
+      .map(part => part.text ?? '')
+      .join('');
+  }
+
+  /**
+   * Combine streamed chunks into one response
+   * The SDK's aggregated response drops thought parts and signatures, so parts are collected here.
+   */
+  private mergeChunks(chunks: GenerateContentResponse[]): GenerateContentResponse {
+    const last = chunks[chunks.length - 1];
+    const candidate: GenerateContentCandidate = {
+      index: 0,
+      ...last?.candidates?.[0],
+      content: {
+        role: 'model',
+        parts: chunks.flatMap(chunk => chunk.candidates?.[0]?.content?.parts ?? []),
+      },
+    };
+    return {
+      candidates: [candidate],
+      promptFeedback: last?.promptFeedback,
+      usageMetadata: chunks
+        .map(chunk => chunk.usageMetadata)
+        .filter(Boolean)
+        .pop(),
+    };
+  }
+
+  /**
+   * Throw a GeminiBlockedError when the prompt was blocked or the response withheld
+   */
+  private assertNotBlocked(response: GenerateContentResponse): void {
+    const feedback = response.promptFeedback;
+    if (feedback?.blockReason) {
+      throw new GeminiBlockedError(
+        `Gemini blocked the prompt (${feedback.blockReason})${feedback.blockReasonMessage ? `: ${feedback.blockReasonMessage}` : ''}`,
+        'prompt',
+        feedback.blockReason,
+        feedback.safetyRatings
+      );
+    }
+
+    const candidate = response.candidates?.[0];
+    if (candidate?.finishReason && BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) {
+      throw new GeminiBlockedError(
+        `Gemini stopped the response (${candidate.finishReason})${candidate.finishMessage ? `: ${candidate.finishMessage}` : ''}`,
+        'response',
+        candidate.finishReason,
+        candidate.safetyRatings
+      );
+    }
+  }
+
+  /**
+   * Id for a function call
+   *
+   * Uses the id returned by the API when present. Otherwise the id is derived from the call
+   * itself, so replayed and cached responses produce the same ids. The turn and the call's
+   * position keep ids apart when the same call is made again later in the conversation.
+   */
+  private toolCallId(call: FunctionCall, turn: number, index: number): string {
+    const apiId = (call as FunctionCall & { id?: string }).id;
+    if (apiId) {
+      return apiId;
+    }
+    const hash = createHash('sha256')
+      .update(`${turn}:${index}:${call.name}:${JSON.stringify(call.args ?? {})}`)
+      .digest('hex');
+    return `call_${hash.substring(0, 24)}`;
+  }
+
+  /**
+   * Map Gemini finish reasons to the finish reasons used by the other providers
+   */
+  private mapFinishReason(finishReason: string | undefined): string {
+    switch (finishReason) {
+      case 'MAX_TOKENS':
+        return 'length';
+      case 'STOP':
+      case 'FINISH_REASON_UNSPECIFIED':
+      case undefined:
+        return 'stop';
+      default:
+        return finishReason.toLowerCase();
+    }
+  }
+
+  /**
+   * Prefix SDK errors with the provider name, keeping structured errors intact
+   */
+  private wrapError(error: unknown): Error {
+    if (error instanceof GeminiBlockedError) {
+      return error;
+    }
+    return new Error(
+      `Gemini API error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
   async isAvailable(): Promise<boolean> {
     try {
       // Try to initialize the model to check if API key is valid
@@ -105,108 +414,133 @@ export class GeminiProvider extends BaseProvider {
     }
   }
 
-  getSupportedModels(): string[] {
-    return [
-      'gemini-2.5-pro',
-      'gemini-2.5-flash'
-    ];
-  }
-
   /**
-   * Convert officeLLM messages to Gemini format
+   * Convert officeLLM messages to Gemini contents
+   *
+   * Assistant tool calls become `functionCall` parts and tool messages become
+   * `functionResponse` parts in a `function` turn, named after the call they answer and
+   * ordered like the calls. Consecutive messages with the same role are merged, since
+   * Gemini expects turns to alternate. System messages are sent as the system instruction.
    */
-  private convertMessagesToGemini(messages: ProviderMessage[]) {
-    type GeminiPart = { text: string } | { functionResponse: { name: string; response: any } } | { functionCall: { name: string; args: any } };
-    const geminiMessages: Array<{ role: 'user' | 'model'; parts: GeminiPart[] }> = [];
-
-    let i = 0;
-    while (i < messages.length) {
-      const message = messages[i];
+  private convertMessagesToGemini(messages: ProviderMessage[]): Content[] {
+    const contents: Content[] = [];
+    const toolCallsById = new Map<string, { name: string; position: number }>();
+    const responsePositions = new Map<Part, number>();
+
+    const append = (role: 'user' | 'model' | 'function', parts: Part[]) => {
+      if (parts.length === 0) return;
+      const previous = contents[contents.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    };
 
+    for (const message of messages) {
       switch (message.role) {
         case 'system':
-          // Gemini doesn't have system messages, so we'll add it to the first user message
-          geminiMessages.push({
-            role: 'user',
-            parts: [{ text: `System: ${message.content}` }]
-          });
-          i++;
+          // Sent as the system instruction
           break;
 
         case 'user':
-          geminiMessages.push({
-            role: 'user',
-            parts: [{ text: message.content }]
-          });
-          i++;
+          append('user', [
+            ...(message.content || !message.parts?.length ? [{ text: message.content }] : []),
+            ...(message.parts ?? []).map(part => this.convertContentPart(part)),
+          ]);
           break;
 
-        case 'assistant':
-          const assistantParts: GeminiPart[] = [];
-
-          // Add text content if present
-          if (message.content) {
-            assistantParts.push({ text: message.content });
-          }
-
-          // Handle tool calls in assistant messages
-          if (message.toolCalls && message.toolCalls.length > 0) {
-            for (const toolCall of message.toolCalls) {
-              assistantParts.push({
-                functionCall: {
-                  name: toolCall.function.name,
-                  args: JSON.parse(toolCall.function.arguments),
-                }
-              });
-            }
-          }
-
-          // Only add if there are parts
-          if (assistantParts.length > 0) {
-            geminiMessages.push({
-              role: 'model',
-              parts: assistantParts
-            });
-          }
-          i++;
-
-          // Now look ahead for tool response messages and group them
-          // Note: Gemini API doesn't allow functionResponse in user messages,
-          // so we always send tool responses as plain text
-          const toolResponseParts: GeminiPart[] = [];
-          while (i < messages.length && messages[i].role === 'tool') {
-            const toolMessage = messages[i];
-            const toolCall = message.toolCalls?.find(tc => tc.id === toolMessage.toolCallId);
-            const toolName = toolCall ? toolCall.function.name : 'unknown_tool';
-            
-            // Always use text format for tool responses to avoid Gemini API errors
-            toolResponseParts.push({
-              text: `Tool ${toolName} result:\n${toolMessage.content}`
+        case 'assistant': {
+          // Thought signatures go back on the part they came with
+          const signatureFor = (toolCallId?: string) =>
+            message.thinkingBlocks
+              ?.filter(
+                (block): block is Extract<ThinkingBlock, { type: 'thought_signature' }> =>
+                  block.type === 'thought_signature'
+              )
+              .find(block => block.toolCallId === toolCallId)?.signature;
+          const parts: ThoughtPart[] = message.content
+            ? [{ text: message.content, thoughtSignature: signatureFor(undefined) }]
+            : [];
+          (message.toolCalls ?? []).forEach((toolCall, position) => {
+            toolCallsById.set(toolCall.id, { name: toolCall.function.name, position });
+            parts.push({
+              functionCall: {
+                name: toolCall.function.name,
+                args: JSON.parse(toolCall.function.arguments || '{}'),
+              },
+              thoughtSignature: signatureFor(toolCall.id),
             });
-            i++;
-          }
+          });
+          append('model', parts);
+          break;
+        }
 
-          // Add tool responses as a separate user message
-          if (toolResponseParts.length > 0) {
-            geminiMessages.push({
-              role: 'user',
-              parts: toolResponseParts
-            });
+        case 'tool': {
+          if (!message.toolCallId) {
+            throw new Error('Tool message is missing toolCallId');
           }
+          const toolCall = toolCallsById.get(message.toolCallId);
+          if (!toolCall) {
+            throw new Error(
+              `Tool message ${message.toolCallId} does not answer a function call in the conversation`
+            );
+          }
+          const part: Part = {
+            functionResponse: {
+              name: toolCall.name,
+              response: this.toFunctionResponse(message.content),
+            },
+          };
+          responsePositions.set(part, toolCall.position);
+          append('function', [part]);
+
+          // Responses to parallel calls must follow the order of the calls
+          contents[contents.length - 1].parts.sort(
+            (a, b) => (responsePositions.get(a) ?? 0) - (responsePositions.get(b) ?? 0)
+          );
           break;
+        }
+      }
+    }
 
-        case 'tool':
-          // Tool messages are handled above when processing assistant messages
-          i++;
-          break;
+    return contents;
+  }
 
-        default:
-          i++;
-          continue;
+  /**
+   * Wrap a tool result as a functionResponse payload, which must be an object
+   */
+  private toFunctionResponse(content: string): object {
+    try {
+      const value = JSON.parse(content);
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return value;
       }
+    } catch {
+      // Plain text result
+    }
+    return { result: content };
+  }
+
+  /**
+   * Convert a content part to a Gemini part
+   * Inline content becomes inlineData; URLs become fileData (e.g. Files API or Cloud Storage URIs)
+   */
+  private convertContentPart(part: ContentPart): Part {
+    if (part.type === 'text') {
+      return { text: part.text };
     }
 
-    return geminiMessages;
+    const { source } = part;
+    if (source.type === 'base64') {
+      return { inlineData: { mimeType: source.mediaType, data: source.data } };
+    }
+
+    const mimeType = getMediaType(source);
+    if (!mimeType) {
+      throw new Error(`Gemini requires a media type for ${source.url}; set source.mediaType`);
+    }
+    return { fileData: { mimeType, fileUri: source.url } };
   }
 
   /**
@@ -253,7 +587,7 @@ export class GeminiProvider extends BaseProvider {
 
     // Clean the schema to remove all additionalProperties fields recursively
     const cleanedSchema = this.cleanSchemaForGemini(schema);
-    
+
     return {
       name: tool.name,
       description: tool.description,
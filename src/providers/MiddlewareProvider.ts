@@ -0,0 +1,166 @@
+import {
+  IProvider,
+  BaseProviderConfig,
+  ChatOptions,
+  ProviderMessage,
+  ToolDefinition,
+  ProviderResponse,
+  ProviderStreamChunk,
+  ProviderType,
+} from './BaseProvider';
+
+/**
+ * Provider call as seen by middleware
+ */
+export interface ProviderRequest {
+  messages: ProviderMessage[];
+  tools?: ToolDefinition[];
+  options?: ChatOptions;
+  /**
+   * Provider that will handle the call (read its `type` and `config.model`)
+   */
+  provider: IProvider;
+}
+
+/**
+ * Middleware around provider calls
+ *
+ * Call `next` with the (possibly modified) request to continue down the chain, then
+ * inspect or modify the response it returns. Returning a response without calling
+ * `next` short-circuits the call; throwing fails it.
+ *
+ * @example
+ * ```typescript
+ * const redactKeys: ProviderMiddleware = (request, next) =>
+ *   next({
+ *     ...request,
+ *     messages: request.messages.map(message => ({
+ *       ...message,
+ *       content: message.content.replace(/sk-[A-Za-z0-9]+/g, '[REDACTED]'),
+ *     })),
+ *   });
+ * ```
+ */
+export type ProviderMiddleware = (
+  request: ProviderRequest,
+  next: (request: ProviderRequest) => Promise<ProviderResponse>
+) => Promise<ProviderResponse>;
+
+/**
+ * Provider wrapper that runs calls through a middleware chain
+ *
+ * Created automatically by ProviderFactory when a provider config has `middleware`.
+ * Middleware runs in order, the first one outermost. When streaming, text chunks are
+ * forwarded as the provider produces them; changes a middleware makes to the response
+ * appear in the final `done` chunk, and a short-circuited call is emitted whole.
+ */
+export class MiddlewareProvider implements IProvider {
+  public readonly type: ProviderType;
+  public readonly config: BaseProviderConfig;
+  private provider: IProvider;
+  private middleware: ProviderMiddleware[];
+
+  constructor(provider: IProvider, middleware: ProviderMiddleware[]) {
+    this.provider = provider;
+    this.middleware = middleware;
+    this.type = provider.type;
+    this.config = provider.config;
+  }
+
+  async chat(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): Promise<ProviderResponse> {
+    return this.run({ messages, tools, options, provider: this.provider }, request =>
+      this.provider.chat(request.messages, request.tools, request.options)
+    );
+  }
+
+  async *chatStream(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): AsyncGenerator<ProviderStreamChunk> {
+    // Chunks produced inside the chain are queued here and yielded as they arrive
+    const queue: ProviderStreamChunk[] = [];
+    let wake: (() => void) | undefined;
+    let settled = false;
+
+    const result = this.run(
+      { messages, tools, options, provider: this.provider },
+      async request => {
+        if (!this.provider.chatStream) {
+          const response = await this.provider.chat(
+            request.messages,
+            request.tools,
+            request.options
+          );
+          if (response.content) {
+            queue.push({ type: 'text', delta: response.content });
+            wake?.();
+          }
+          return response;
+        }
+
+        for await (const chunk of this.provider.chatStream(
+          request.messages,
+          request.tools,
+          request.options
+        )) {
+          if (chunk.type === 'done') {
+            return chunk.response;
+          }
+          queue.push(chunk);
+          wake?.();
+        }
+        throw new Error(`Provider '${this.type}' stream ended without a final response`);
+      }
+    );
+
+    const finish = () => {
+      settled = true;
+      wake?.();
+    };
+    result.then(finish, finish);
+
+    let streamed = false;
+    while (true) {
+      while (queue.length > 0) {
+        streamed = true;
+        yield queue.shift()!;
+      }
+      if (settled) break;
+      await new Promise<void>(resolve => (wake = resolve));
+      wake = undefined;
+    }
+
+    const response = await result;
+    if (!streamed && response.content) {
+      yield { type: 'text', delta: response.content };
+    }
+    yield { type: 'done', response };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.provider.isAvailable();
+  }
+
+  getSupportedModels(): string[] {
+    return this.provider.getSupportedModels();
+  }
+
+  /**
+   * Run a request through the middleware chain, ending with `call`
+   */
+  private run(
+    request: ProviderRequest,
+    call: (request: ProviderRequest) => Promise<ProviderResponse>
+  ): Promise<ProviderResponse> {
+    const dispatch = (index: number, current: ProviderRequest): Promise<ProviderResponse> => {
+      const middleware = this.middleware[index];
+      return middleware ? middleware(current, next => dispatch(index + 1, next)) : call(current);
+    };
+    return dispatch(0, request);
+  }
+}
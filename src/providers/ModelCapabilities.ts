@@ -0,0 +1,369 @@
+import type { ProviderType } from './BaseProvider';
+
+/**
+ * Prices of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /**
+   * Price of prompt tokens read from the provider's prompt cache (default: the input price)
+   */
+  cachedInput?: number;
+}
+
+/**
+ * Limits, features and prices of a model
+ */
+export interface ModelCapabilities {
+  /**
+   * Provider type that serves the model, used to list models per provider
+   */
+  provider?: ProviderType;
+  /**
+   * Maximum context length (prompt and output) in tokens
+   */
+  contextWindow: number;
+  /**
+   * Maximum number of output tokens per response
+   */
+  maxOutputTokens?: number;
+  /**
+   * Whether the model can call tools (unset when unknown)
+   */
+  toolCalling?: boolean;
+  /**
+   * Whether the model accepts image input (unset when unknown)
+   */
+  vision?: boolean;
+  /**
+   * Whether the model supports native structured output (unset when unknown)
+   */
+  jsonMode?: boolean;
+  /**
+   * List prices, used for cost accounting
+   */
+  pricing?: ModelPricing;
+}
+
+/**
+ * Known models, keyed by model name or name prefix
+ * Prices are list prices for standard (non-batch) requests and change over time;
+ * override them with registerModelPricing() or the provider's `pricing` option.
+ */
+const MODEL_CAPABILITIES: Record<string, ModelCapabilities> = {
+  // OpenAI
+  'gpt-4': entry('openai', {
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    vision: false,
+    jsonMode: false,
+    pricing: { input: 30, output: 60 },
+  }),
+  'gpt-4-32k': entry('openai', {
+    contextWindow: 32768,
+    maxOutputTokens: 32768,
+    vision: false,
+    jsonMode: false,
+    pricing: { input: 60, output: 120 },
+  }),
+  'gpt-4-turbo': entry('openai', {
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    pricing: { input: 10, output: 30 },
+  }),
+  'gpt-4o': entry('openai', {
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    pricing: { input: 2.5, output: 10, cachedInput: 1.25 },
+  }),
+  'gpt-4o-mini': entry('openai', {
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    pricing: { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  }),
+  'gpt-4.1': entry('openai', {
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 2, output: 8, cachedInput: 0.5 },
+  }),
+  'gpt-4.1-mini': entry('openai', {
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  }),
+  'gpt-4.1-nano': entry('openai', {
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  }),
+  'gpt-5': entry('openai', {
+    contextWindow: 400000,
+    maxOutputTokens: 128000,
+    pricing: { input: 1.25, output: 10, cachedInput: 0.125 },
+  }),
+  'gpt-5-mini': entry('openai', {
+    contextWindow: 400000,
+    maxOutputTokens: 128000,
+    pricing: { input: 0.25, output: 2, cachedInput: 0.025 },
+  }),
+  'gpt-5-nano': entry('openai', {
+    contextWindow: 400000,
+    maxOutputTokens: 128000,
+    pricing: { input: 0.05, output: 0.4, cachedInput: 0.005 },
+  }),
+  'gpt-3.5-turbo': entry('openai', {
+    contextWindow: 16385,
+    maxOutputTokens: 4096,
+    vision: false,
+    pricing: { input: 0.5, output: 1.5 },
+  }),
+  o1: entry('openai', {
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 15, output: 60, cachedInput: 7.5 },
+  }),
+  'o1-mini': entry('openai', {
+    contextWindow: 128000,
+    maxOutputTokens: 65536,
+    toolCalling: false,
+    vision: false,
+    jsonMode: false,
+    pricing: { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  }),
+  o3: entry('openai', {
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 2, output: 8, cachedInput: 0.5 },
+  }),
+  'o3-mini': entry('openai', {
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    vision: false,
+    pricing: { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  }),
+  'o4-mini': entry('openai', {
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 1.1, output: 4.4, cachedInput: 0.275 },
+  }),
+
+  // Anthropic (structured output uses a forced tool call)
+  'claude-3-opus': entry('anthropic', {
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { input: 15, output: 75, cachedInput: 1.5 },
+  }),
+  'claude-3-sonnet': entry('anthropic', {
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { input: 3, output: 15, cachedInput: 0.3 },
+  }),
+  'claude-3-haiku': entry('anthropic', {
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.25, output: 1.25, cachedInput: 0.03 },
+  }),
+  'claude-3-5-sonnet': entry('anthropic', {
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    pricing: { input: 3, output: 15, cachedInput: 0.3 },
+  }),
+  'claude-3-5-haiku': entry('anthropic', {
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    vision: false,
+    pricing: { input: 0.8, output: 4, cachedInput: 0.08 },
+  }),
+  'claude-3-7-sonnet': entry('anthropic', {
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    pricing: { input: 3, output: 15, cachedInput: 0.3 },
+  }),
+  'claude-sonnet-4': entry('anthropic', {
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    pricing: { input: 3, output: 15, cachedInput: 0.3 },
+  }),
+  'claude-opus-4': entry('anthropic', {
+    contextWindow: 200000,
+    maxOutputTokens: 32000,
+    pricing: { input: 15, output: 75, cachedInput: 1.5 },
+  }),
+  'claude-opus-4-5': entry('anthropic', {
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    pricing: { input: 5, output: 25, cachedInput: 0.5 },
+  }),
+  'claude-haiku-4-5': entry('anthropic', {
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    pricing: { input: 1, output: 5, cachedInput: 0.1 },
+  }),
+  'claude-2': entry('anthropic', {
+    contextWindow: 100000,
+    maxOutputTokens: 4096,
+    toolCalling: false,
+    vision: false,
+    jsonMode: false,
+    pricing: { input: 8, output: 24 },
+  }),
+  'claude-2.1': entry('anthropic', {
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    toolCalling: false,
+    vision: false,
+    jsonMode: false,
+    pricing: { input: 8, output: 24 },
+  }),
+  'claude-instant-1.2': entry('anthropic', {
+    contextWindow: 100000,
+    maxOutputTokens: 4096,
+    toolCalling: false,
+    vision: false,
+    jsonMode: false,
+    pricing: { input: 0.8, output: 2.4 },
+  }),
+
+  // Gemini
+  'gemini-2.5-pro': entry('gemini', {
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    pricing: { input: 1.25, output: 10, cachedInput: 0.31 },
+  }),
+  'gemini-2.5-flash': entry('gemini', {
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    pricing: { input: 0.3, output: 2.5, cachedInput: 0.075 },
+  }),
+  'gemini-2.5-flash-lite': entry('gemini', {
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  }),
+  'gemini-2.0-flash': entry('gemini', {
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  }),
+  'gemini-2.0-flash-lite': entry('gemini', {
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.075, output: 0.3 },
+  }),
+  'gemini-1.5-pro': entry('gemini', {
+    contextWindow: 2097152,
+    maxOutputTokens: 8192,
+    pricing: { input: 1.25, output: 5 },
+  }),
+  'gemini-1.5-flash': entry('gemini', {
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.075, output: 0.3 },
+  }),
+  'gemini-pro': entry('gemini', {
+    contextWindow: 32760,
+    maxOutputTokens: 8192,
+    vision: false,
+    jsonMode: false,
+    pricing: { input: 0.5, output: 1.5 },
+  }),
+
+  // Open models served through OpenRouter (prices depend on the host)
+  'meta-llama/llama-3.1-70b-instruct': entry('openrouter', {
+    contextWindow: 131072,
+    vision: false,
+    jsonMode: false,
+  }),
+  'meta-llama/llama-2-70b-chat': entry('openrouter', {
+    contextWindow: 4096,
+    maxOutputTokens: 4096,
+    toolCalling: false,
+    vision: false,
+    jsonMode: false,
+  }),
+};
+
+/**
+ * Prices registered at runtime, taking precedence over the table
+ */
+const MODEL_PRICING: Record<string, ModelPricing> = {};
+
+/**
+ * Register or override the capabilities of a model (or of every model starting with `model`)
+ */
+export function registerModelCapabilities(model: string, capabilities: ModelCapabilities): void {
+  MODEL_CAPABILITIES[model] = capabilities;
+}
+
+/**
+ * Look up a model's capabilities
+ *
+ * Matches the exact name first, then the longest known prefix, so dated snapshots such as
+ * `claude-3-5-sonnet-20240620` resolve to their family. A prefix does not match across a
+ * size suffix (`gpt-5-mini` never falls back to the `gpt-5` entry). OpenRouter-style vendor
+ * prefixes (`anthropic/claude-3-sonnet`) are ignored.
+ */
+export function getModelCapabilities(model: string): ModelCapabilities | undefined {
+  return lookup(MODEL_CAPABILITIES, model);
+}
+
+/**
+ * List the models registered for a provider type, or all registered models
+ */
+export function getRegisteredModels(provider?: ProviderType): string[] {
+  return Object.keys(MODEL_CAPABILITIES).filter(
+    model => !provider || MODEL_CAPABILITIES[model].provider === provider
+  );
+}
+
+/**
+ * Set or override the prices of a model (or of every model starting with `model`)
+ */
+export function registerModelPricing(model: string, pricing: ModelPricing): void {
+  MODEL_PRICING[model] = pricing;
+}
+
+/**
+ * Look up a model's prices, preferring registered prices over the built-in table
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  return lookup(MODEL_PRICING, model) ?? getModelCapabilities(model)?.pricing;
+}
+
+// What may follow a known prefix: a separator, but not another size variant of the model
+const PREFIX_SEPARATOR = /^[-.:](?!(mini|nano|lite|pro)\b)/;
+
+/**
+ * Find the entry for a model by exact name, then by longest prefix
+ */
+function lookup<T>(table: Record<string, T>, model: string): T | undefined {
+  const candidates = [model, model.substring(model.lastIndexOf('/') + 1)];
+
+  for (const name of candidates) {
+    if (table[name]) {
+      return table[name];
+    }
+  }
+
+  for (const name of candidates) {
+    const prefix = Object.keys(table)
+      .filter(known => name.startsWith(known) && PREFIX_SEPARATOR.test(name.slice(known.length)))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix) {
+      return table[prefix];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Table entry for a model, assuming tool calling, vision and structured output unless overridden
+ */
+function entry(
+  provider: ProviderType,
+  capabilities: Omit<ModelCapabilities, 'provider'>
+): ModelCapabilities {
+  return { provider, toolCalling: true, vision: true, jsonMode: true, ...capabilities };
+}
@@ -0,0 +1,357 @@
+import z from 'zod';
+import OpenAI from 'openai';
+import type {
+  ChatCompletionContentPart,
+  ChatCompletionMessageFunctionToolCall,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+  ChatCompletionCreateParamsNonStreaming,
+} from 'openai/resources/chat/completions';
+import type { CompletionUsage } from 'openai/resources/completions';
+import {
+  BaseProvider,
+  BaseProviderConfig,
+  ChatOptions,
+  ContentPart,
+  ProviderMessage,
+  ToolDefinition,
+  ProviderResponse,
+  ProviderStreamChunk,
+  ToolCall,
+} from './BaseProvider';
+import { toDataUrl } from '../utils/media';
+
+/**
+ * Configuration shared by every provider that speaks the OpenAI chat completions protocol
+ */
+export interface OpenAICompatibleConfig extends BaseProviderConfig {
+  /**
+   * Base URL of the chat completions API.
+   * Point this at OpenRouter, an Azure deployment or a local server (Ollama, vLLM, LM Studio).
+   */
+  baseURL?: string;
+  organization?: string;
+  /**
+   * Extra headers sent with every request (e.g. `api-key` for Azure, `HTTP-Referer` for OpenRouter)
+   */
+  defaultHeaders?: Record<string, string>;
+  /**
+   * Extra query parameters sent with every request (e.g. `api-version` for Azure)
+   */
+  defaultQuery?: Record<string, string>;
+  temperature?: number;
+  maxTokens?: number;
+  /**
+   * Request field that carries `maxTokens`. OpenAI's reasoning models only accept
+   * `max_completion_tokens`, while many compatible servers only know `max_tokens`.
+   * Defaults to `max_completion_tokens` for OpenAI itself and `max_tokens` for other servers.
+   */
+  maxTokensParam?: 'max_tokens' | 'max_completion_tokens';
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+}
+
+/**
+ * Base class for providers backed by an OpenAI-compatible chat completions endpoint
+ */
+export abstract class OpenAICompatibleProvider extends BaseProvider {
+  protected client: OpenAI;
+  protected maxTokensParam: 'max_tokens' | 'max_completion_tokens';
+
+  protected constructor(config: OpenAICompatibleConfig, defaultBaseURL?: string) {
+    super(config);
+    this.maxTokensParam =
+      config.maxTokensParam ??
+      ((config.baseURL ?? defaultBaseURL) ? 'max_tokens' : 'max_completion_tokens');
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK refuses to start without one
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseURL ?? defaultBaseURL,
+      organization: config.organization,
+      defaultHeaders: config.defaultHeaders,
+      defaultQuery: config.defaultQuery,
+      // Retries are handled by BaseProvider.withRetry
+      maxRetries: 0,
+    });
+  }
+
+  async chat(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): Promise<ProviderResponse> {
+    const { value: completion, retries } = await this.withRetry(
+      () =>
+        this.client.chat.completions.create(this.buildRequest(messages, tools, options), {
+          headers: options?.headers,
+          signal: options?.signal,
+        }),
+      options?.signal
+    );
+
+    const choice = completion.choices[0];
+    if (!choice) {
+      throw new Error(`${this.type} API returned no choices for model ${this.config.model}`);
+    }
+
+    let toolCalls: ToolCall[] | undefined;
+    if (choice.message.tool_calls && choice.message.tool_calls.length > 0) {
+      toolCalls = choice.message.tool_calls
+        .filter((call): call is ChatCompletionMessageFunctionToolCall => call.type === 'function')
+        .map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: {
+            name: call.function.name,
+            // Some compatible servers return an empty string when the tool takes no arguments
+            arguments: call.function.arguments || '{}',
+          },
+        }));
+    }
+
+    return {
+      content: choice.message.content ?? '',
+      toolCalls,
+      reasoning: this.extractReasoning(choice.message),
+      usage: completion.usage ? this.convertUsage(completion.usage) : undefined,
+      finishReason: choice.finish_reason ?? 'stop',
+      retries,
+    };
+  }
+
+  async *chatStream(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): AsyncGenerator<ProviderStreamChunk> {
+    // Only opening the stream is retried; a stream that fails midway cannot be resumed
+    const { value: stream, retries } = await this.withRetry(
+      () =>
+        this.client.chat.completions.create(
+          {
+            ...this.buildRequest(messages, tools, options),
+            stream: true,
+            stream_options: { include_usage: true },
+          },
+          { headers: options?.headers, signal: options?.signal }
+        ),
+      options?.signal
+    );
+
+    let content = '';
+    let reasoning = '';
+    let finishReason = 'stop';
+    let usage: ProviderResponse['usage'];
+    const toolCalls: ToolCall[] = [];
+
+    for await (const chunk of stream) {
+      // The usage chunk is sent last with an empty choices array
+      if (chunk.usage) {
+        usage = this.convertUsage(chunk.usage);
+      }
+
+      const choice = chunk.choices[0];
+      if (!choice) continue;
+
+      const reasoningDelta = this.extractReasoning(choice.delta);
+      if (reasoningDelta) {
+        reasoning += reasoningDelta;
+        yield { type: 'reasoning', delta: reasoningDelta };
+      }
+
+      if (choice.delta.content) {
+        content += choice.delta.content;
+        yield { type: 'text', delta: choice.delta.content };
+      }
+
+      for (const fragment of choice.delta.tool_calls ?? []) {
+        const toolCall = (toolCalls[fragment.index] ??= {
+          id: '',
+          type: 'function',
+          function: { name: '', arguments: '' },
+        });
+        if (fragment.id) toolCall.id = fragment.id;
+        if (fragment.function?.name) toolCall.function.name += fragment.function.name;
+        if (fragment.function?.arguments)
+          toolCall.function.arguments += fragment.function.arguments;
+
+        yield {
+          type: 'tool_call',
+          index: fragment.index,
+          id: fragment.id,
+          name: fragment.function?.name,
+          argumentsDelta: fragment.function?.arguments ?? '',
+        };
+      }
+
+      if (choice.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+    }
+
+    const completedToolCalls = toolCalls.filter(Boolean).map(toolCall => ({
+      ...toolCall,
+      function: { ...toolCall.function, arguments: toolCall.function.arguments || '{}' },
+    }));
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        toolCalls: completedToolCalls.length > 0 ? completedToolCalls : undefined,
+        reasoning: reasoning || undefined,
+        usage,
+        finishReason,
+        retries,
+      },
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    // Self-hosted endpoints commonly run without an API key
+    return Boolean(this.config.apiKey) || Boolean(this.config.baseURL);
+  }
+
+  /**
+   * Build the chat completions request body
+   */
+  protected buildRequest(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): ChatCompletionCreateParamsNonStreaming {
+    const responseFormat = options?.responseFormat;
+    const hasTools = tools !== undefined && tools.length > 0;
+
+    return {
+      model: this.config.model,
+      messages: this.convertMessages(messages),
+      tools: hasTools ? tools.map(tool => this.convertTool(tool)) : undefined,
+      // tool_choice is rejected when no tools are sent
+      tool_choice: hasTools ? options?.toolChoice : undefined,
+      response_format: responseFormat
+        ? {
+            type: 'json_schema',
+            json_schema: { name: responseFormat.name, schema: responseFormat.schema },
+          }
+        : undefined,
+      reasoning_effort: this.config.reasoning?.effort,
+      temperature: this.config.temperature,
+      [this.maxTokensParam]: this.config.maxTokens,
+      top_p: this.config.topP,
+      frequency_penalty: this.config.frequencyPenalty,
+      presence_penalty: this.config.presencePenalty,
+    };
+  }
+
+  /**
+   * Read reasoning from a message or stream delta
+   * The protocol has no reasoning field; servers that expose reasoning (DeepSeek, vLLM,
+   * OpenRouter) send it as `reasoning_content` or `reasoning`.
+   */
+  protected extractReasoning(message: object): string | undefined {
+    const { reasoning_content, reasoning } = message as {
+      reasoning_content?: unknown;
+      reasoning?: unknown;
+    };
+    const text = reasoning_content ?? reasoning;
+    return typeof text === 'string' && text ? text : undefined;
+  }
+
+  /**
+   * Convert chat completions usage to the officeLLM usage shape
+   */
+  protected convertUsage(usage: CompletionUsage): ProviderResponse['usage'] {
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+      cachedTokens: usage.prompt_tokens_details?.cached_tokens,
+      reasoningTokens: usage.completion_tokens_details?.reasoning_tokens,
+    };
+  }
+
+  /**
+   * Convert officeLLM messages to the chat completions wire format
+   */
+  protected convertMessages(messages: ProviderMessage[]): ChatCompletionMessageParam[] {
+    return messages.map((message): ChatCompletionMessageParam => {
+      switch (message.role) {
+        case 'system':
+          return { role: 'system', content: message.content };
+
+        case 'assistant':
+          if (message.toolCalls && message.toolCalls.length > 0) {
+            return {
+              role: 'assistant',
+              content: message.content || null,
+              tool_calls: message.toolCalls.map(toolCall => ({
+                id: toolCall.id,
+                type: 'function' as const,
+                function: {
+                  name: toolCall.function.name,
+                  arguments: toolCall.function.arguments,
+                },
+              })),
+            };
+          }
+          return { role: 'assistant', content: message.content };
+
+        case 'tool':
+          if (!message.toolCallId) {
+            throw new Error('Tool message is missing toolCallId');
+          }
+          return { role: 'tool', content: message.content, tool_call_id: message.toolCallId };
+
+        case 'user':
+        default:
+          if (message.parts && message.parts.length > 0) {
+            const parts: ChatCompletionContentPart[] = message.content
+              ? [{ type: 'text', text: message.content }]
+              : [];
+            return {
+              role: 'user',
+              content: [...parts, ...message.parts.map(part => this.convertContentPart(part))],
+            };
+          }
+          return { role: 'user', content: message.content };
+      }
+    });
+  }
+
+  /**
+   * Convert a content part to the chat completions format
+   * Files are sent as data URLs; URL sources are passed through for servers that accept them
+   */
+  protected convertContentPart(part: ContentPart): ChatCompletionContentPart {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: part.text };
+      case 'image':
+        return {
+          type: 'image_url',
+          image_url: { url: toDataUrl(part.source), detail: part.detail },
+        };
+      case 'file':
+        return { type: 'file', file: { filename: part.name, file_data: toDataUrl(part.source) } };
+    }
+  }
+
+  /**
+   * Convert a ToolDefinition with Zod parameters to a chat completions function tool
+   */
+  protected convertTool(tool: ToolDefinition): ChatCompletionTool {
+    const parameters = z.toJSONSchema(tool.parameters) as Record<string, any>;
+    delete parameters.$schema;
+
+    return {
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters,
+      },
+    };
+  }
+}
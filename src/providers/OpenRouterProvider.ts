@@ -1,9 +1,11 @@
-import { BaseProvider, BaseProviderConfig, ProviderMessage, ToolDefinition, ProviderResponse } from './BaseProvider';
+import type { ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+import { ChatOptions, ProviderMessage, ToolDefinition } from './BaseProvider';
+import { OpenAICompatibleProvider, OpenAICompatibleConfig } from './OpenAICompatibleProvider';
 
 /**
  * OpenRouter provider configuration
  */
-export interface OpenRouterConfig extends BaseProviderConfig {
+export interface OpenRouterConfig extends OpenAICompatibleConfig {
   type: 'openrouter';
   apiKey: string;
   model: string;
@@ -17,81 +19,38 @@ export interface OpenRouterConfig extends BaseProviderConfig {
 /**
  * OpenRouter provider implementation
  */
-export class OpenRouterProvider extends BaseProvider {
+export class OpenRouterProvider extends OpenAICompatibleProvider {
   constructor(config: OpenRouterConfig) {
-    super(config);
+    // OpenRouter uses OpenAI-compatible API
+    super(config, 'https://openrouter.ai/api/v1');
   }
 
-  async chat(messages: ProviderMessage[], tools?: ToolDefinition[]): Promise<ProviderResponse> {
-    // Mock implementation for now - replace with actual OpenRouter integration
-    const lastMessage = messages[messages.length - 1];
-
-    let toolCalls: any[] | undefined;
-    if (tools && tools.length > 0) {
-      const mentionedTool = tools.find(tool =>
-        lastMessage.content.toLowerCase().includes(tool.name.toLowerCase())
-      );
+  async isAvailable(): Promise<boolean> {
+    return Boolean(this.config.apiKey);
+  }
 
-      if (mentionedTool) {
-        toolCalls = [{
-          id: 'call_' + Date.now(),
-          type: 'function',
-          function: {
-            name: mentionedTool.name,
-            arguments: JSON.stringify({ task: 'sample task', priority: 'medium' }),
-          },
-        }];
-      }
+  /**
+   * OpenRouter takes reasoning settings as a `reasoning` object covering every upstream
+   * provider, with either an effort or a token budget
+   */
+  protected buildRequest(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): ChatCompletionCreateParamsNonStreaming {
+    const request = super.buildRequest(messages, tools, options);
+    const reasoning = this.config.reasoning;
+    if (!reasoning) {
+      return request;
     }
 
     return {
-      content: `Mock response from ${this.config.model}: ${lastMessage.content.substring(0, 100)}...`,
-      toolCalls,
-      usage: {
-        promptTokens: 100,
-        completionTokens: 50,
-        totalTokens: 150,
-      },
-      finishReason: 'stop',
-    };
-  }
-
-  getSupportedModels(): string[] {
-    // OpenRouter supports many models - this is a subset
-    return [
-      'openai/gpt-4',
-      'openai/gpt-3.5-turbo',
-      'anthropic/claude-3-opus',
-      'anthropic/claude-3-sonnet',
-      'anthropic/claude-3-haiku',
-      'meta-llama/llama-2-70b-chat',
-      'google/gemini-pro',
-      // Many more available through OpenRouter
-    ];
-  }
-
-  private async getOpenAIClient() {
-    // OpenRouter uses OpenAI-compatible API
-    const { OpenAI } = await import('openai');
-    return new OpenAI({
-      apiKey: this.config.apiKey,
-      baseURL: 'https://openrouter.ai/api/v1',
-    });
-  }
-
-  private zodToJsonSchema(schema: any): any {
-    // Simple conversion - in production, use zod-to-json-schema
-    try {
-      return {
-        type: 'object',
-        properties: {},
-        required: [],
-      };
-    } catch (error) {
-      return {
-        type: 'object',
-        properties: {},
-      };
-    }
+      ...request,
+      reasoning_effort: undefined,
+      reasoning:
+        reasoning.budgetTokens !== undefined
+          ? { max_tokens: reasoning.budgetTokens }
+          : { effort: reasoning.effort },
+    } as ChatCompletionCreateParamsNonStreaming;
   }
 }
@@ -1,8 +1,15 @@
-import { BaseProvider, IProvider, BaseProviderConfig, ProviderType } from './BaseProvider';
+import { IProvider, BaseProviderConfig, ProviderType } from './BaseProvider';
 import { OpenAIProvider, OpenAIConfig } from './OpenAIProvider';
 import { AnthropicProvider, AnthropicConfig } from './AnthropicProvider';
 import { GeminiProvider, GeminiConfig } from './GeminiProvider';
 import { OpenRouterProvider, OpenRouterConfig } from './OpenRouterProvider';
+import { ScriptedProvider, ScriptedConfig } from './ScriptedProvider';
+import { FallbackProvider, FallbackPolicy } from './FallbackProvider';
+import { CassetteProvider } from './CassetteProvider';
+import { CachingProvider } from './CachingProvider';
+import { RateLimitedProvider } from './RateLimitedProvider';
+import { MiddlewareProvider, ProviderMiddleware } from './MiddlewareProvider';
+import { getRegisteredModels } from './ModelCapabilities';
 
 /**
  * Union type of all provider configurations
@@ -11,7 +18,8 @@ export type ProviderConfig =
   | OpenAIConfig
   | AnthropicConfig
   | GeminiConfig
-  | OpenRouterConfig;
+  | OpenRouterConfig
+  | ScriptedConfig;
 
 /**
  * Provider factory for creating and managing providers
@@ -25,6 +33,7 @@ export class ProviderFactory {
     this.register('anthropic', AnthropicProvider);
     this.register('gemini', GeminiProvider);
     this.register('openrouter', OpenRouterProvider);
+    this.register('scripted', ScriptedProvider);
   }
 
   /**
@@ -44,10 +53,34 @@ export class ProviderFactory {
     const ProviderClass = this.providers.get(config.type);
 
     if (!ProviderClass) {
-      throw new Error(`Provider type '${config.type}' is not registered. Available types: ${Array.from(this.providers.keys()).join(', ')}`);
+      throw new Error(
+        `Provider type '${config.type}' is not registered. Available types: ${Array.from(this.providers.keys()).join(', ')}`
+      );
     }
 
-    return new ProviderClass(config);
+    let provider = new ProviderClass(config);
+
+    // Only calls that reach the API count against the account's limits
+    if (config.rateLimit) {
+      provider = new RateLimitedProvider(provider, config.rateLimit);
+    }
+
+    // Any provider type can be recorded to or replayed from a cassette
+    if (config.cassette) {
+      provider = new CassetteProvider(provider, config.cassette);
+    }
+
+    // Cache hits skip the provider (and cassette) entirely
+    if (config.cache) {
+      provider = new CachingProvider(provider, config.cache);
+    }
+
+    // Middleware sees every call, including cache hits, and can rewrite requests before they are cached or recorded
+    if (config.middleware && config.middleware.length > 0) {
+      provider = new MiddlewareProvider(provider, config.middleware);
+    }
+
+    return provider;
   }
 
   /**
@@ -65,28 +98,10 @@ export class ProviderFactory {
   }
 
   /**
-   * Get supported models for a provider type
+   * Get the models registered for a provider type in the capability registry
    */
   static getSupportedModels(type: ProviderType): string[] {
-    const ProviderClass = this.providers.get(type);
-    if (!ProviderClass) {
-      return [];
-    }
-
-    // Create a temporary instance to get supported models
-    // This is a bit hacky but works for our use case
-    const tempConfig = {
-      type,
-      apiKey: 'dummy',
-      model: 'dummy',
-    } as BaseProviderConfig;
-
-    try {
-      const instance = new ProviderClass(tempConfig);
-      return instance.getSupportedModels();
-    } catch {
-      return [];
-    }
+    return getRegisteredModels(type);
   }
 }
 
@@ -97,6 +112,32 @@ export function createProvider(config: ProviderConfig): IProvider {
   return ProviderFactory.create(config);
 }
 
+/**
+ * Helper function to create a provider from a single config or an ordered fallback chain
+ * Shared middleware runs before each provider's own middleware
+ */
+export function createProviderChain(
+  config: ProviderConfig | ProviderConfig[],
+  policy?: FallbackPolicy,
+  middleware: ProviderMiddleware[] = []
+): IProvider {
+  const configs = (Array.isArray(config) ? config : [config]).map(providerConfig =>
+    middleware.length > 0
+      ? { ...providerConfig, middleware: [...middleware, ...(providerConfig.middleware ?? [])] }
+      : providerConfig
+  );
+  if (configs.length === 0) {
+    throw new Error('At least one provider configuration is required');
+  }
+  if (configs.length === 1) {
+    return ProviderFactory.create(configs[0]);
+  }
+  return new FallbackProvider(
+    configs.map(providerConfig => ProviderFactory.create(providerConfig)),
+    policy
+  );
+}
+
 /**
  * Helper function to register a custom provider
  */
@@ -0,0 +1,141 @@
+import { createHash } from 'crypto';
+import {
+  IProvider,
+  BaseProviderConfig,
+  ChatOptions,
+  ProviderMessage,
+  ToolDefinition,
+  ProviderResponse,
+  ProviderStreamChunk,
+  ProviderType,
+} from './BaseProvider';
+import { IRateLimiter, RateLimiterConfig, RateLimiterFactory, RateLimits } from '../ratelimit';
+import { countMessageTokens, countToolTokens, getTokenizer } from '../utils/tokens';
+import { logger } from '../utils/logger';
+
+/**
+ * Rate limits for a provider account
+ */
+export interface RateLimitConfig extends RateLimits {
+  /**
+   * Limiter backend: a configuration (identical configurations share one backend
+   * process-wide) or a limiter instance. Defaults to the shared in-process limiter;
+   * use a Redis backend to coordinate several processes.
+   */
+  backend?: RateLimiterConfig | IRateLimiter;
+  /**
+   * Account the limits apply to (defaults to the provider type and a hash of the API key,
+   * so every provider using the same key shares one budget)
+   */
+  key?: string;
+}
+
+/**
+ * Provider wrapper that waits for capacity under the account's request and token limits
+ *
+ * Created automatically by ProviderFactory when a provider config has a `rateLimit` option.
+ * Tokens are reserved from an estimate before the call and corrected from the reported usage.
+ */
+export class RateLimitedProvider implements IProvider {
+  public readonly type: ProviderType;
+  public readonly config: BaseProviderConfig;
+  private provider: IProvider;
+  private limiter: IRateLimiter;
+  private limits: RateLimits;
+  private key: string;
+
+  constructor(provider: IProvider, rateLimitConfig: RateLimitConfig) {
+    this.provider = provider;
+    this.type = provider.type;
+    this.config = provider.config;
+    const backend = rateLimitConfig.backend ?? { type: 'in-memory' };
+    this.limiter = isRateLimiter(backend) ? backend : RateLimiterFactory.getShared(backend);
+    this.limits = {
+      requestsPerMinute: rateLimitConfig.requestsPerMinute,
+      tokensPerMinute: rateLimitConfig.tokensPerMinute,
+    };
+    this.key =
+      rateLimitConfig.key ??
+      `${this.type}:${createHash('sha256')
+        .update(this.config.apiKey ?? '')
+        .digest('hex')
+        .slice(0, 16)}`;
+  }
+
+  async chat(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): Promise<ProviderResponse> {
+    const estimate = this.estimateTokens(messages, tools);
+    await this.limiter.acquire(this.key, this.limits, estimate, options?.signal);
+
+    const response = await this.provider.chat(messages, tools, options);
+    await this.settle(estimate, response);
+    return response;
+  }
+
+  async *chatStream(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): AsyncGenerator<ProviderStreamChunk> {
+    const estimate = this.estimateTokens(messages, tools);
+    await this.limiter.acquire(this.key, this.limits, estimate, options?.signal);
+
+    if (!this.provider.chatStream) {
+      const response = await this.provider.chat(messages, tools, options);
+      await this.settle(estimate, response);
+      if (response.content) {
+        yield { type: 'text', delta: response.content };
+      }
+      yield { type: 'done', response };
+      return;
+    }
+
+    for await (const chunk of this.provider.chatStream(messages, tools, options)) {
+      if (chunk.type === 'done') {
+        await this.settle(estimate, chunk.response);
+      }
+      yield chunk;
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.provider.isAvailable();
+  }
+
+  getSupportedModels(): string[] {
+    return this.provider.getSupportedModels();
+  }
+
+  /**
+   * Expected tokens for a call: the prompt plus the completion limit
+   */
+  private estimateTokens(messages: ProviderMessage[], tools?: ToolDefinition[]): number {
+    const tokenizer = getTokenizer(this.config);
+    const prompt =
+      messages.reduce((total, message) => total + countMessageTokens(message, tokenizer), 0) +
+      countToolTokens(tools, tokenizer);
+    return prompt + (this.config.maxTokens ?? 0);
+  }
+
+  /**
+   * Replace the estimate with the call's reported usage; limiter failures are logged and ignored
+   */
+  private async settle(estimate: number, response: ProviderResponse): Promise<void> {
+    if (!response.usage || this.limits.tokensPerMinute === undefined) {
+      return;
+    }
+
+    try {
+      await this.limiter.adjust(this.key, response.usage.totalTokens - estimate);
+    } catch (error) {
+      logger.warn(`RATELIMIT:${this.type}`, 'Failed to record token usage', error);
+    }
+  }
+}
+
+function isRateLimiter(backend: RateLimiterConfig | IRateLimiter): backend is IRateLimiter {
+  return typeof (backend as IRateLimiter).acquire === 'function';
+}
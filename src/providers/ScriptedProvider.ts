@@ -0,0 +1,257 @@
+import {
+  BaseProvider,
+  BaseProviderConfig,
+  ChatOptions,
+  ProviderMessage,
+  ToolDefinition,
+  ProviderResponse,
+  ToolCall,
+} from './BaseProvider';
+
+/**
+ * Tool call in a scripted response; arguments may be given as an object
+ */
+export interface ScriptedToolCall {
+  id?: string;
+  name: string;
+  arguments?: Record<string, any> | string;
+}
+
+/**
+ * Response returned by a scripted turn
+ */
+export interface ScriptedResponse {
+  content?: string;
+  toolCalls?: ScriptedToolCall[];
+  reasoning?: string;
+  thinkingBlocks?: ProviderResponse['thinkingBlocks'];
+  usage?: ProviderResponse['usage'];
+  finishReason?: string;
+}
+
+/**
+ * A single scripted provider turn
+ */
+export interface ScriptedTurn {
+  /**
+   * Optional predicate on the incoming request; the turn only applies when it returns true
+   */
+  match?: (messages: ProviderMessage[], tools?: ToolDefinition[], options?: ChatOptions) => boolean;
+  /**
+   * Response to return, or a function building it from the request
+   */
+  response?:
+    | ScriptedResponse
+    | ((
+        messages: ProviderMessage[],
+        tools?: ToolDefinition[],
+        options?: ChatOptions
+      ) => ScriptedResponse);
+  /**
+   * Error to throw instead of responding, e.g. to simulate provider failures
+   */
+  error?: Error;
+}
+
+/**
+ * Request received by a scripted provider
+ */
+export interface ScriptedCall {
+  turn: number;
+  messages: ProviderMessage[];
+  tools?: ToolDefinition[];
+  options?: ChatOptions;
+}
+
+/**
+ * An ordered script of provider turns, shared between the config and the test that owns it
+ *
+ * @example
+ * ```typescript
+ * const managerScript = new ProviderScript([
+ *   { response: { toolCalls: [{ name: 'math_solver', arguments: { task: '2+2' } }] } },
+ *   { match: messages => messages.some(m => m.role === 'tool'), response: { content: '4' } },
+ * ]);
+ *
+ * const office = new OfficeLLM({
+ *   manager: { ..., provider: { type: 'scripted', apiKey: '', model: 'scripted', script: managerScript } },
+ *   ...
+ * });
+ *
+ * await office.executeTask(task);
+ * managerScript.assertConsumed();
+ * ```
+ */
+export class ProviderScript {
+  /**
+   * Requests received so far, in order
+   */
+  public readonly calls: ScriptedCall[] = [];
+  private turns: ScriptedTurn[];
+  private consumed: boolean[];
+
+  constructor(turns: ScriptedTurn[]) {
+    this.turns = turns;
+    this.consumed = turns.map(() => false);
+  }
+
+  /**
+   * Find and consume the turn answering this request
+   *
+   * In `sequential` mode the next unconsumed turn must match; in `match` mode the first
+   * unconsumed turn whose predicate matches is used, regardless of position.
+   */
+  next(
+    messages: ProviderMessage[],
+    tools: ToolDefinition[] | undefined,
+    mode: 'sequential' | 'match',
+    options?: ChatOptions
+  ): { index: number; turn: ScriptedTurn } {
+    const callNumber = this.calls.length + 1;
+    this.calls.push({
+      turn: callNumber,
+      messages: messages.map(message => ({ ...message })),
+      tools,
+      options,
+    });
+
+    const remaining = this.turns
+      .map((turn, index) => ({ turn, index }))
+      .filter(({ index }) => !this.consumed[index]);
+
+    if (remaining.length === 0) {
+      throw new Error(
+        `Scripted provider received call #${callNumber} but all ${this.turns.length} scripted turns were already consumed`
+      );
+    }
+
+    const matches = ({ turn }: { turn: ScriptedTurn }) =>
+      !turn.match || turn.match(messages, tools, options);
+    const candidate = mode === 'match' ? remaining.find(matches) : remaining[0];
+
+    if (!candidate || !matches(candidate)) {
+      const lastMessage = messages[messages.length - 1];
+      throw new Error(
+        `Scripted provider call #${callNumber} did not match ${mode === 'match' ? 'any remaining turn' : `turn #${remaining[0].index + 1}`}. ` +
+          `Last message (${lastMessage?.role}): ${lastMessage?.content.substring(0, 200)}`
+      );
+    }
+
+    this.consumed[candidate.index] = true;
+    return candidate;
+  }
+
+  /**
+   * Number of scripted turns not yet consumed
+   */
+  remaining(): number {
+    return this.consumed.filter(consumed => !consumed).length;
+  }
+
+  /**
+   * Throw if any scripted turn was never consumed
+   */
+  assertConsumed(): void {
+    const unconsumed = this.consumed
+      .map((consumed, index) => (consumed ? null : index + 1))
+      .filter((turn): turn is number => turn !== null);
+
+    if (unconsumed.length > 0) {
+      throw new Error(
+        `Scripted provider has ${unconsumed.length} unconsumed turn(s): #${unconsumed.join(', #')}`
+      );
+    }
+  }
+}
+
+/**
+ * Scripted provider configuration
+ */
+export interface ScriptedConfig extends BaseProviderConfig {
+  type: 'scripted';
+  apiKey: string;
+  model: string;
+  /**
+   * Turns to replay; pass a ProviderScript to inspect calls and assert consumption afterwards
+   */
+  script: ScriptedTurn[] | ProviderScript;
+  /**
+   * How requests are matched to turns (default: 'sequential')
+   */
+  mode?: 'sequential' | 'match';
+}
+
+/**
+ * Deterministic provider that replays a script of responses
+ *
+ * Intended for tests and offline development: no network access, stable tool call ids
+ * and explicit failures when the conversation diverges from the script.
+ */
+export class ScriptedProvider extends BaseProvider {
+  public readonly script: ProviderScript;
+  private mode: 'sequential' | 'match';
+
+  constructor(config: ScriptedConfig) {
+    super(config);
+    const script = config.script ?? [];
+    this.script = script instanceof ProviderScript ? script : new ProviderScript(script);
+    this.mode = config.mode ?? 'sequential';
+  }
+
+  async chat(
+    messages: ProviderMessage[],
+    tools?: ToolDefinition[],
+    options?: ChatOptions
+  ): Promise<ProviderResponse> {
+    options?.signal?.throwIfAborted();
+    const { index, turn } = this.script.next(messages, tools, this.mode, options);
+
+    if (turn.error) {
+      throw turn.error;
+    }
+
+    const scripted =
+      typeof turn.response === 'function'
+        ? turn.response(messages, tools, options)
+        : (turn.response ?? {});
+
+    let toolCalls: ToolCall[] | undefined;
+    if (scripted.toolCalls && scripted.toolCalls.length > 0) {
+      toolCalls = scripted.toolCalls.map((toolCall, callIndex) => ({
+        id: toolCall.id ?? `call_${index + 1}_${callIndex + 1}`,
+        type: 'function' as const,
+        function: {
+          name: toolCall.name,
+          arguments:
+            typeof toolCall.arguments === 'string'
+              ? toolCall.arguments
+              : JSON.stringify(toolCall.arguments ?? {}),
+        },
+      }));
+    }
+
+    return {
+      content: scripted.content ?? '',
+      toolCalls,
+      reasoning: scripted.reasoning,
+      thinkingBlocks: scripted.thinkingBlocks,
+      usage: scripted.usage ?? { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      finishReason: scripted.finishReason ?? (toolCalls ? 'tool_calls' : 'stop'),
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  getSupportedModels(): string[] {
+    return ['scripted'];
+  }
+
+  /**
+   * Throw if any scripted turn was never consumed
+   */
+  assertConsumed(): void {
+    this.script.assertConsumed();
+  }
+}
@@ -5,21 +5,59 @@ export {
   BaseProviderConfig,
   ProviderType,
   ProviderMessage,
+  ContentPart,
+  MediaSource,
   ToolCall,
   ToolDefinition,
   ProviderResponse,
+  ProviderStreamChunk,
+  ChatOptions,
+  ResponseFormat,
+  ReasoningConfig,
+  ThinkingBlock,
 } from './BaseProvider';
 
 // Specific provider exports
+export { OpenAICompatibleProvider, OpenAICompatibleConfig } from './OpenAICompatibleProvider';
 export { OpenAIProvider, OpenAIConfig } from './OpenAIProvider';
 export { AnthropicProvider, AnthropicConfig } from './AnthropicProvider';
-export { GeminiProvider, GeminiConfig } from './GeminiProvider';
+export { GeminiProvider, GeminiConfig, GeminiBlockedError } from './GeminiProvider';
 export { OpenRouterProvider, OpenRouterConfig } from './OpenRouterProvider';
+export {
+  ScriptedProvider,
+  ScriptedConfig,
+  ProviderScript,
+  ScriptedTurn,
+  ScriptedResponse,
+  ScriptedToolCall,
+  ScriptedCall,
+} from './ScriptedProvider';
+export { FallbackProvider, FallbackPolicy } from './FallbackProvider';
+export {
+  CassetteProvider,
+  CassetteConfig,
+  Cassette,
+  CassetteInteraction,
+  CassetteMismatchError,
+} from './CassetteProvider';
+export { CachingProvider, ResponseCacheConfig } from './CachingProvider';
+export { RateLimitedProvider, RateLimitConfig } from './RateLimitedProvider';
+export { MiddlewareProvider, ProviderMiddleware, ProviderRequest } from './MiddlewareProvider';
+export {
+  ModelCapabilities,
+  ModelPricing,
+  getModelCapabilities,
+  registerModelCapabilities,
+  getRegisteredModels,
+  getModelPricing,
+  registerModelPricing,
+} from './ModelCapabilities';
 
 // Factory exports
 export {
   ProviderFactory,
   createProvider,
+  createProviderChain,
   registerProvider,
   ProviderConfig,
 } from './ProviderFactory';
@@ -0,0 +1,124 @@
+/**
+ * Supported rate limiter backend types
+ */
+export type RateLimiterType = 'in-memory' | 'redis' | string;
+
+/**
+ * Base configuration for all rate limiter backends
+ */
+export interface BaseRateLimiterConfig {
+  /**
+   * The type of rate limiter backend
+   */
+  type: RateLimiterType;
+}
+
+/**
+ * Limits for one provider account, enforced over a sliding one-minute window
+ */
+export interface RateLimits {
+  requestsPerMinute?: number;
+  /**
+   * Maximum prompt and completion tokens per minute
+   */
+  tokensPerMinute?: number;
+}
+
+/**
+ * Base interface for rate limiter backends
+ */
+export interface IRateLimiter {
+  /**
+   * Wait until a call expected to use `tokens` fits the limits of account `key`, then count it
+   * Waiting calls are admitted in arrival order.
+   */
+  acquire(key: string, limits: RateLimits, tokens: number, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Correct the token count of account `key` once a call's actual usage is known
+   * (negative when the call used fewer tokens than expected)
+   */
+  adjust(key: string, tokens: number): Promise<void>;
+
+  /**
+   * Close/cleanup the limiter connection
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Abstract base class for rate limiter backends
+ */
+export abstract class BaseRateLimiter implements IRateLimiter {
+  protected config: BaseRateLimiterConfig;
+
+  constructor(config: BaseRateLimiterConfig) {
+    this.config = config;
+  }
+
+  abstract acquire(
+    key: string,
+    limits: RateLimits,
+    tokens: number,
+    signal?: AbortSignal
+  ): Promise<void>;
+  abstract adjust(key: string, tokens: number): Promise<void>;
+  abstract close(): Promise<void>;
+
+  /**
+   * Get the rate limiter type
+   */
+  getType(): RateLimiterType {
+    return this.config.type;
+  }
+}
+
+/**
+ * Length of the sliding window, in milliseconds
+ */
+export const RATE_LIMIT_WINDOW_MS = 60_000;
+
+/**
+ * Call (or token correction) counted in an account's window
+ */
+export interface RateLimitEntry {
+  at: number;
+  requests: number;
+  tokens: number;
+}
+
+/**
+ * Milliseconds until a call of `tokens` fits the limits, or 0 when it fits now
+ *
+ * `entries` are the window's entries, oldest first. A call larger than the whole token
+ * limit is let through once the window is empty, so it cannot wait forever.
+ */
+export function rateLimitDelay(
+  entries: RateLimitEntry[],
+  limits: RateLimits,
+  tokens: number,
+  now: number
+): number {
+  let delay = 0;
+
+  const requestsPerMinute = limits.requestsPerMinute;
+  if (requestsPerMinute !== undefined && requestsPerMinute > 0) {
+    const requests = entries.filter(entry => entry.requests > 0);
+    if (requests.length >= requestsPerMinute) {
+      delay = requests[requests.length - requestsPerMinute].at + RATE_LIMIT_WINDOW_MS - now;
+    }
+  }
+
+  const tokensPerMinute = limits.tokensPerMinute;
+  if (tokensPerMinute !== undefined) {
+    // Drop the oldest entries until the call fits; it can run when the last one dropped expires
+    let used = entries.reduce((sum, entry) => sum + entry.tokens, 0);
+    for (const entry of entries) {
+      if (used <= 0 || used + tokens <= tokensPerMinute) break;
+      used -= entry.tokens;
+      delay = Math.max(delay, entry.at + RATE_LIMIT_WINDOW_MS - now);
+    }
+  }
+
+  return Math.max(delay, 0);
+}
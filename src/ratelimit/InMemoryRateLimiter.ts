@@ -0,0 +1,86 @@
+import {
+  BaseRateLimiter,
+  BaseRateLimiterConfig,
+  RATE_LIMIT_WINDOW_MS,
+  RateLimitEntry,
+  RateLimits,
+  rateLimitDelay,
+} from './BaseRateLimiter';
+import { raceAbort, sleep } from '../utils/abort';
+import { logger } from '../utils/logger';
+
+/**
+ * Configuration for the in-process rate limiter
+ */
+export interface InMemoryRateLimiterConfig extends BaseRateLimiterConfig {
+  type: 'in-memory';
+}
+
+/**
+ * In-process sliding window rate limiter
+ * Limits are shared by every provider in the process that uses the same account key.
+ */
+export class InMemoryRateLimiter extends BaseRateLimiter {
+  private accounts: Map<string, { entries: RateLimitEntry[]; queue: Promise<void> }> = new Map();
+
+  constructor(config: InMemoryRateLimiterConfig) {
+    super(config);
+  }
+
+  async acquire(
+    key: string,
+    limits: RateLimits,
+    tokens: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const account = this.account(key);
+
+    // Each call waits for the calls queued before it, so agents are served in arrival order
+    const turn = account.queue.then(() =>
+      this.waitForCapacity(key, account.entries, limits, tokens, signal)
+    );
+    account.queue = turn.catch(() => undefined);
+    return raceAbort(turn, signal);
+  }
+
+  async adjust(key: string, tokens: number): Promise<void> {
+    this.account(key).entries.push({ at: Date.now(), requests: 0, tokens });
+  }
+
+  async close(): Promise<void> {
+    this.accounts.clear();
+  }
+
+  private account(key: string): { entries: RateLimitEntry[]; queue: Promise<void> } {
+    let account = this.accounts.get(key);
+    if (!account) {
+      account = { entries: [], queue: Promise.resolve() };
+      this.accounts.set(key, account);
+    }
+    return account;
+  }
+
+  private async waitForCapacity(
+    key: string,
+    entries: RateLimitEntry[],
+    limits: RateLimits,
+    tokens: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      while (entries.length > 0 && entries[0].at <= now - RATE_LIMIT_WINDOW_MS) {
+        entries.shift();
+      }
+
+      const delay = rateLimitDelay(entries, limits, tokens, now);
+      if (delay === 0) {
+        entries.push({ at: now, requests: 1, tokens });
+        return;
+      }
+
+      logger.debug('RATELIMIT', `Waiting ${delay}ms for capacity on ${key}`);
+      await sleep(delay, signal);
+    }
+  }
+}
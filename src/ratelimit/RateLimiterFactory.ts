@@ -0,0 +1,93 @@
+import { IRateLimiter, BaseRateLimiterConfig, RateLimiterType } from './BaseRateLimiter';
+import { InMemoryRateLimiter, InMemoryRateLimiterConfig } from './InMemoryRateLimiter';
+import { RedisRateLimiter, RedisRateLimiterConfig } from './RedisRateLimiter';
+
+/**
+ * Union type of all rate limiter configurations
+ */
+export type RateLimiterConfig = InMemoryRateLimiterConfig | RedisRateLimiterConfig;
+
+/**
+ * Rate limiter factory for creating and managing rate limiter backends
+ */
+export class RateLimiterFactory {
+  private static limiters = new Map<RateLimiterType, new (config: any) => IRateLimiter>();
+  private static shared = new Map<string, IRateLimiter>();
+
+  // Register built-in rate limiter backends
+  static {
+    this.register('in-memory', InMemoryRateLimiter);
+    this.register('redis', RedisRateLimiter);
+  }
+
+  /**
+   * Register a new rate limiter type
+   */
+  static register<T extends BaseRateLimiterConfig>(
+    type: RateLimiterType,
+    RateLimiterClass: new (config: T) => IRateLimiter
+  ): void {
+    this.limiters.set(type, RateLimiterClass as any);
+  }
+
+  /**
+   * Create a rate limiter instance from configuration
+   */
+  static create(config: RateLimiterConfig): IRateLimiter {
+    const RateLimiterClass = this.limiters.get(config.type);
+
+    if (!RateLimiterClass) {
+      throw new Error(
+        `Rate limiter type '${config.type}' is not registered. Available types: ${Array.from(this.limiters.keys()).join(', ')}`
+      );
+    }
+
+    return new RateLimiterClass(config);
+  }
+
+  /**
+   * Get the process-wide rate limiter instance for a configuration
+   * Identical configurations share one backend, so every agent and OfficeLLM instance
+   * draws from the same limits
+   */
+  static getShared(config: RateLimiterConfig): IRateLimiter {
+    const key = JSON.stringify(config);
+    let limiter = this.shared.get(key);
+    if (!limiter) {
+      limiter = this.create(config);
+      this.shared.set(key, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Get all registered rate limiter types
+   */
+  static getRegisteredTypes(): RateLimiterType[] {
+    return Array.from(this.limiters.keys());
+  }
+
+  /**
+   * Check if a rate limiter type is registered
+   */
+  static isRegistered(type: RateLimiterType): boolean {
+    return this.limiters.has(type);
+  }
+}
+
+/**
+ * Helper function to create a rate limiter
+ */
+export function createRateLimiter(config: RateLimiterConfig): IRateLimiter {
+  return RateLimiterFactory.create(config);
+}
+
+/**
+ * Helper function to register a custom rate limiter
+ */
+export function registerRateLimiter<T extends BaseRateLimiterConfig>(
+  type: RateLimiterType,
+  RateLimiterClass: new (config: T) => IRateLimiter
+): void {
+  RateLimiterFactory.register(type, RateLimiterClass);
+}
@@ -0,0 +1,183 @@
+import { randomUUID } from 'crypto';
+import {
+  BaseRateLimiter,
+  BaseRateLimiterConfig,
+  RATE_LIMIT_WINDOW_MS,
+  RateLimits,
+} from './BaseRateLimiter';
+import { raceAbort, sleep } from '../utils/abort';
+import { logger } from '../utils/logger';
+import { createRedisClient, RedisConnectionConfig } from '../utils/redis';
+
+/**
+ * Configuration for the Redis rate limiter
+ * Uses the same connection settings as RedisMemory
+ */
+export interface RedisRateLimiterConfig extends BaseRateLimiterConfig, RedisConnectionConfig {
+  type: 'redis';
+  host: string;
+  port: number;
+  tls?: boolean;
+  password?: string;
+  db?: number;
+  keyPrefix?: string;
+}
+
+/**
+ * Checks an account's window and counts the call when it fits (same rules as rateLimitDelay)
+ * Window entries are sorted set members `<id>:<requests>:<tokens>` scored by time in ms.
+ * Returns 0 when the call was counted, otherwise the milliseconds to wait.
+ */
+const ACQUIRE_SCRIPT = `
+local window = tonumber(ARGV[1])
+local rpm = tonumber(ARGV[2])
+local tpm = tonumber(ARGV[3])
+local tokens = tonumber(ARGV[4])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+
+local entries = redis.call('ZRANGE', KEYS[1], 0, -1, 'WITHSCORES')
+local requests = {}
+local sizes = {}
+local used = 0
+for i = 1, #entries, 2 do
+  local count, size = string.match(entries[i], ':(%d+):(%-?%d+)$')
+  sizes[i] = tonumber(size)
+  used = used + sizes[i]
+  if tonumber(count) > 0 then
+    table.insert(requests, tonumber(entries[i + 1]))
+  end
+end
+
+local delay = 0
+if rpm > 0 and #requests >= rpm then
+  delay = requests[#requests - rpm + 1] + window - now
+end
+if tpm >= 0 then
+  for i = 1, #entries, 2 do
+    if used <= 0 or used + tokens <= tpm then break end
+    used = used - sizes[i]
+    delay = math.max(delay, tonumber(entries[i + 1]) + window - now)
+  end
+end
+if delay > 0 then
+  return delay
+end
+
+redis.call('ZADD', KEYS[1], now, ARGV[5] .. ':1:' .. tokens)
+redis.call('PEXPIRE', KEYS[1], window)
+return 0
+`;
+
+/**
+ * Adds a token correction to an account's window
+ */
+const ADJUST_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+redis.call('ZADD', KEYS[1], now, ARGV[2] .. ':0:' .. ARGV[3])
+redis.call('PEXPIRE', KEYS[1], ARGV[1])
+return 0
+`;
+
+/**
+ * Sliding window rate limiter shared across processes through Redis
+ *
+ * Calls within a process are admitted in arrival order; across processes, waiting calls
+ * retry when capacity frees up, so ordering between processes is approximate.
+ */
+export class RedisRateLimiter extends BaseRateLimiter {
+  private client: any; // Redis client (any to avoid hard dependency)
+  private keyPrefix: string;
+  private connection: Promise<void> | null = null;
+  private redisConfig: RedisRateLimiterConfig;
+  private queues: Map<string, Promise<void>> = new Map();
+
+  constructor(config: RedisRateLimiterConfig) {
+    super(config);
+    this.redisConfig = config;
+    this.keyPrefix = config.keyPrefix || 'officellm:ratelimit:';
+  }
+
+  async acquire(
+    key: string,
+    limits: RateLimits,
+    tokens: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const turn = (this.queues.get(key) ?? Promise.resolve()).then(() =>
+      this.waitForCapacity(key, limits, tokens, signal)
+    );
+    this.queues.set(
+      key,
+      turn.catch(() => undefined)
+    );
+    return raceAbort(turn, signal);
+  }
+
+  async adjust(key: string, tokens: number): Promise<void> {
+    await this.connect();
+    await this.client.eval(ADJUST_SCRIPT, {
+      keys: [this.keyPrefix + key],
+      arguments: [String(RATE_LIMIT_WINDOW_MS), randomUUID(), String(Math.round(tokens))],
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.connection) {
+      await this.connection;
+      await this.client.quit();
+      this.connection = null;
+    }
+  }
+
+  private async waitForCapacity(
+    key: string,
+    limits: RateLimits,
+    tokens: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.connect();
+
+    while (true) {
+      signal?.throwIfAborted();
+      const delay = Number(
+        await this.client.eval(ACQUIRE_SCRIPT, {
+          keys: [this.keyPrefix + key],
+          arguments: [
+            String(RATE_LIMIT_WINDOW_MS),
+            String(limits.requestsPerMinute ?? 0),
+            String(limits.tokensPerMinute ?? -1),
+            String(Math.round(tokens)),
+            randomUUID(),
+          ],
+        })
+      );
+      if (delay === 0) {
+        return;
+      }
+
+      logger.debug('RATELIMIT', `Waiting ${delay}ms for capacity on ${key}`);
+      await sleep(delay, signal);
+    }
+  }
+
+  /**
+   * Connect lazily on first use
+   */
+  private connect(): Promise<void> {
+    if (!this.connection) {
+      logger.debug(
+        'REDIS',
+        `Connecting rate limiter to Redis at ${this.redisConfig.host}:${this.redisConfig.port}`
+      );
+      this.client = createRedisClient(this.redisConfig);
+      this.client.on('error', (err: Error) => {
+        logger.error('REDIS', 'Redis rate limiter client error', err);
+      });
+      this.connection = this.client.connect().then(() => undefined);
+    }
+    return this.connection!;
+  }
+}
@@ -0,0 +1,20 @@
+// Base rate limiter types and interfaces
+export {
+  BaseRateLimiter,
+  IRateLimiter,
+  BaseRateLimiterConfig,
+  RateLimiterType,
+  RateLimits,
+} from './BaseRateLimiter';
+
+// Rate limiter implementations
+export { InMemoryRateLimiter, InMemoryRateLimiterConfig } from './InMemoryRateLimiter';
+export { RedisRateLimiter, RedisRateLimiterConfig } from './RedisRateLimiter';
+
+// Factory and helpers
+export {
+  RateLimiterFactory,
+  RateLimiterConfig,
+  createRateLimiter,
+  registerRateLimiter,
+} from './RateLimiterFactory';
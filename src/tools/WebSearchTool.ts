@@ -7,20 +7,14 @@ import { ToolResult } from '../types';
  */
 export class WebSearchTool extends BaseTool {
   constructor() {
-    super(
-      uuidv4(),
-      'web_search',
-      'Search the web for information',
-      '1.0.0',
-      {
-        author: 'officeLLM',
-        tags: ['search', 'web', 'information'],
-        rateLimit: {
-          requests: 100,
-          period: 60000, // 1 minute
-        },
-      }
-    );
+    super(uuidv4(), 'web_search', 'Search the web for information', '1.0.0', {
+      author: 'officeLLM',
+      tags: ['search', 'web', 'information'],
+      rateLimit: {
+        requests: 100,
+        period: 60000, // 1 minute
+      },
+    });
   }
 
   async execute(params: Record<string, any>): Promise<ToolResult> {
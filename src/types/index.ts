@@ -2,8 +2,20 @@
  * Core type definitions for the officeLLM multi-agent architecture
  */
 
-import { ProviderConfig, ToolDefinition } from '../providers';
+import type { ZodObject, ZodType } from 'zod';
+import {
+  ContentPart,
+  FallbackPolicy,
+  ProviderConfig,
+  ProviderMiddleware,
+  ToolCall,
+  ToolDefinition,
+} from '../providers';
 import { MemoryConfig } from '../memory';
+import { ContextStrategyConfig, IContextStrategy } from '../context';
+import type { CostReport } from '../utils/cost';
+import type { BudgetConfig, BudgetExceeded } from '../utils/budget';
+import type { PromptTemplate } from '../utils/template';
 
 /**
  * Represents a unique identifier for agents, tasks, and messages
@@ -13,13 +25,7 @@ export type ID = string;
 /**
  * Represents the status of a task execution
  */
-export type TaskStatus =
-  | 'pending'
-  | 'in_progress'
-  | 'completed'
-  | 'failed'
-  | 'cancelled';
-
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
 
 /**
  * Represents a message exchanged between agents
@@ -102,21 +108,76 @@ export interface PerformanceMetrics {
   expertiseMatches: number;
 }
 
+/**
+ * Token-based context window
+ *
+ * Older messages are dropped until the prompt fits the budget, counted with the
+ * provider's tokenizer. Room for the response is always reserved.
+ */
+export interface TokenContextWindow {
+  type: 'tokens';
+  /**
+   * Total token budget for prompt and response (default: the model's context length)
+   */
+  limit?: number;
+  /**
+   * Tokens reserved for the response (default: the provider's maxTokens, then the model's max output, capped at a quarter of the limit)
+   */
+  reserveOutputTokens?: number;
+}
+
 /**
  * Manager configuration
  */
 export interface ManagerConfig {
   name: string;
   description: string;
-  provider: ProviderConfig;
+  /**
+   * Provider configuration, or an ordered fallback chain tried until one succeeds
+   */
+  provider: ProviderConfig | ProviderConfig[];
+  /**
+   * When to move on to the next provider in a fallback chain
+   */
+  fallback?: FallbackPolicy;
   systemPrompt: string;
   maxIterations?: number;
-  contextWindow?: number;
+  /**
+   * Context window: a number of recent messages (default: 10) or a token budget
+   */
+  contextWindow?: number | TokenContextWindow;
+  /**
+   * How history is trimmed to fit the context window (default: truncate)
+   */
+  contextStrategy?: ContextStrategyConfig | IContextStrategy;
   restrictedWorkers?: string[];
+  /**
+   * Worker calls from one manager response that run at the same time (default: 4, 1 runs them one by one)
+   * Calls to the same worker still run one after another.
+   */
+  maxConcurrentWorkers?: number;
+  /**
+   * Re-prompts allowed when the final answer does not match Task.outputSchema (default: 2)
+   */
+  maxOutputRetries?: number;
+  /**
+   * Limits on the manager's own model calls in each task (workers are not counted)
+   */
+  budget?: BudgetConfig;
+}
+
+/**
+ * Context passed to tool implementations
+ */
+export interface ToolContext {
+  /**
+   * Aborted when the task is cancelled or times out; pass it on to long-running work
+   */
+  signal?: AbortSignal;
 }
 
 export interface ToolImplementation {
-  (args: any): Promise<string>;
+  (args: any, context: ToolContext): Promise<string>;
 }
 
 /**
@@ -125,16 +186,41 @@ export interface ToolImplementation {
 export interface WorkerConfig {
   name: string;
   description?: string;
-  provider: ProviderConfig;
+  /**
+   * Provider configuration, or an ordered fallback chain tried until one succeeds
+   */
+  provider: ProviderConfig | ProviderConfig[];
+  /**
+   * When to move on to the next provider in a fallback chain
+   */
+  fallback?: FallbackPolicy;
   systemPrompt: string;
+  /**
+   * Parameters the manager provides when calling this worker, used as the worker's tool schema
+   * Arguments are validated against it before the worker runs (default: task, context, metadata, priority).
+   *
+   * @example
+   * ```typescript
+   * inputSchema: z.object({
+   *   ticker: z.string().describe('Stock ticker symbol'),
+   *   period: z.enum(['1d', '1m', '1y']).describe('Reporting period'),
+   * })
+   * ```
+   */
+  inputSchema?: ZodObject<any>;
+  /**
+   * How the worker's input is rendered into its task prompt, e.g.
+   * `'Analyze {{ticker}} over {{period}}'` (default: one `key: value` line per parameter)
+   */
+  promptTemplate?: PromptTemplate;
   tools?: ToolDefinition[];
   /**
    * Tool implementations - USER MUST PROVIDE
-   * 
+   *
    * Map of tool names to their implementations. Each tool defined in `tools`
    * The parameters of each tool must be a ZodSchema.
    * MUST have a corresponding implementation here.
-   * 
+   *
    * @example
    * ```typescript
    * toolImplementations: {
@@ -150,8 +236,89 @@ export interface WorkerConfig {
    * ```
    */
   toolImplementations?: Record<string, ToolImplementation>;
+  /**
+   * Peers in the same team this worker may call itself (opt-in)
+   */
+  delegation?: DelegationConfig;
+  /**
+   * Tool calls marked `parallel` that run at the same time (default: 4)
+   */
+  maxConcurrentTools?: number;
+  /**
+   * Time limit for each tool call, in milliseconds, unless the tool sets its own `timeoutMs`
+   */
+  toolTimeoutMs?: number;
   maxIterations?: number;
-  contextWindow?: number;
+  /**
+   * Context window: a number of recent messages (default: 10) or a token budget
+   */
+  contextWindow?: number | TokenContextWindow;
+  /**
+   * How history is trimmed to fit the context window (default: truncate)
+   */
+  contextStrategy?: ContextStrategyConfig | IContextStrategy;
+  /**
+   * Limits on each run of this worker
+   */
+  budget?: BudgetConfig;
+}
+
+/**
+ * Peers a worker may delegate to
+ */
+export interface DelegationConfig {
+  /**
+   * Workers or sub-offices of the same team this worker may delegate subtasks to
+   * Peers the manager may not call (`restrictedWorkers`) are left out.
+   */
+  workers: string[];
+  /**
+   * Also let the worker hand the whole task off to one of them, whose answer becomes the
+   * worker's result (default: false)
+   */
+  handoff?: boolean;
+}
+
+/**
+ * Subtask a worker delegated or handed off to a peer
+ */
+export interface Delegation {
+  from: string;
+  to: string;
+  type: 'delegate' | 'handoff';
+  /**
+   * Workers on the delegation path, from the one the manager called to `to`
+   */
+  chain: string[];
+  success: boolean;
+}
+
+/**
+ * Sub-office configuration: a manager with its own team, which the parent manager calls as a single worker
+ *
+ * @example
+ * ```typescript
+ * {
+ *   name: 'research_lead',
+ *   description: 'Coordinates the research team',
+ *   manager: { name: 'research_lead', description: '...', provider: { ... }, systemPrompt: '...' },
+ *   workers: [webResearcher, paperResearcher, dataResearcher],
+ * }
+ * ```
+ */
+export interface SubOfficeConfig {
+  name: string;
+  description?: string;
+  manager: ManagerConfig;
+  workers: Array<WorkerConfig | SubOfficeConfig>;
+  /**
+   * Parameters the parent manager provides when calling this sub-office (default: task, context, metadata, priority)
+   */
+  inputSchema?: ZodObject<any>;
+  /**
+   * How the input is rendered into the sub-office manager's task description
+   */
+  promptTemplate?: PromptTemplate;
 }
 
 /**
@@ -159,11 +326,14 @@ export interface WorkerConfig {
  */
 export interface OfficeLLMConfig {
   manager: ManagerConfig;
-  workers: WorkerConfig[];
+  /**
+   * Workers and sub-offices available to the manager
+   */
+  workers: Array<WorkerConfig | SubOfficeConfig>;
   /**
    * Optional memory configuration for storing conversation history
    * Supports in-memory and Redis storage, with extensibility for custom implementations
-   * 
+   *
    * @example
    * ```typescript
    * // In-memory storage
@@ -171,7 +341,7 @@ export interface OfficeLLMConfig {
    *   type: 'in-memory',
    *   maxConversations: 1000
    * }
-   * 
+   *
    * // Redis storage
    * memory: {
    *   type: 'redis',
@@ -183,6 +353,22 @@ export interface OfficeLLMConfig {
    * ```
    */
   memory?: MemoryConfig;
+  /**
+   * Middleware run around every provider call of the manager and workers,
+   * before any middleware configured on the provider itself
+   */
+  middleware?: ProviderMiddleware[];
+  /**
+   * What to do when an agent's model lacks a capability it needs, such as tool calling
+   * for a worker with tools: 'warn' (default), 'error' to fail construction, or 'off'.
+   * Models missing from the capability registry are not checked.
+   */
+  capabilityCheck?: 'warn' | 'error' | 'off';
+  /**
+   * Maximum levels of managers, counting the top-level one (default: 3)
+   * Deeper sub-offices (including a sub-office that contains itself) fail construction.
+   */
+  maxDepth?: number;
 }
 
 /**
@@ -193,24 +379,108 @@ export type TaskPriority = 'low' | 'medium' | 'high';
 /**
  * Task definition for simplified execution
  */
-export interface Task {
+export interface Task<T = any> {
   title: string;
   description: string;
   priority?: TaskPriority;
+  /**
+   * Images and files for the task; the manager sees them and can forward them to workers
+   */
+  attachments?: ContentPart[];
+  /**
+   * Shape of the final answer; the validated value is returned as TaskResult.data
+   */
+  outputSchema?: ZodType<T>;
+  /**
+   * Limits on the whole task, covering the manager and every worker it calls
+   */
+  budget?: BudgetConfig;
   [key: string]: any; // Allow additional task-specific parameters
 }
 
+/**
+ * Options for a single executeTask or callWorker call
+ */
+export interface ExecutionOptions {
+  /**
+   * Cancels the execution when aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * Cancel the execution after this many milliseconds
+   */
+  timeoutMs?: number;
+}
+
 /**
  * Task execution result
  */
-export interface TaskResult {
+export interface TaskResult<T = any> {
   success: boolean;
+  /**
+   * How execution ended: 'completed', 'failed', or 'cancelled' (by signal or timeout)
+   */
+  status?: TaskStatus;
   content: string;
+  /**
+   * Final answer parsed and validated against Task.outputSchema
+   */
+  data?: T;
   toolCalls?: any[];
   usage?: {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    /**
+     * Completion tokens spent on reasoning (included in completionTokens)
+     */
+    reasoningTokens?: number;
+    /**
+     * Provider calls that had to be retried after transient failures
+     */
+    retries?: number;
+    /**
+     * Provider calls served from the response cache (their tokens are not counted above)
+     */
+    cacheHits?: number;
   };
+  /**
+   * Estimated cost in USD, by agent and by provider/model
+   */
+  cost?: CostReport;
+  /**
+   * Budget limit that stopped execution early, if any
+   */
+  budgetExceeded?: BudgetExceeded;
+  /**
+   * Delegations and handoffs between workers during execution, in the order they started
+   */
+  delegations?: Delegation[];
   error?: string;
 }
+
+/**
+ * Progress event emitted by OfficeLLM.executeTaskStream
+ *
+ * Events are emitted in execution order; the final event is always `result`.
+ */
+export type TaskStreamEvent = (
+  | { type: 'manager_token'; managerName: string; delta: string }
+  | { type: 'worker_started'; workerName: string; toolCallId: string; params: Record<string, any> }
+  | { type: 'worker_token'; workerName: string; delta: string }
+  | { type: 'tool_call'; workerName: string; toolCall: ToolCall }
+  | {
+      type: 'tool_result';
+      workerName: string;
+      toolCallId: string;
+      toolName: string;
+      content: string;
+    }
+  | { type: 'worker_finished'; workerName: string; toolCallId: string; result: TaskResult }
+  | { type: 'result'; result: TaskResult }
+) & {
+  /**
+   * Sub-offices the event comes from, outermost first (absent for the top-level office)
+   */
+  office?: string[];
+};
@@ -0,0 +1,95 @@
+/**
+ * Cancellation helpers built on AbortSignal
+ */
+
+/**
+ * Combine a caller's signal and a timeout into a single signal
+ * Call `dispose` when the execution ends to clear the timer and listener.
+ */
+export function createExecutionSignal(
+  signal?: AbortSignal,
+  timeoutMs?: number
+): { signal?: AbortSignal; dispose: () => void } {
+  if (!timeoutMs) {
+    return { signal, dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = setTimeout(
+    () =>
+      controller.abort(
+        new DOMException(`Execution timed out after ${timeoutMs}ms`, 'TimeoutError')
+      ),
+    timeoutMs
+  );
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Describe why a signal was aborted
+ */
+export function abortReason(signal: AbortSignal): string {
+  const reason = signal.reason;
+  // DOMException is not an Error subclass in every realm (e.g. Jest's sandbox)
+  if (reason instanceof Error || typeof reason?.message === 'string') {
+    return reason.message;
+  }
+  return typeof reason === 'string' ? reason : 'Execution cancelled';
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal is aborted
+ * Used for work that may ignore the signal, such as user tool implementations.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  let onAbort: () => void;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  return Promise.race([promise, aborted]).finally(() =>
+    signal.removeEventListener('abort', onAbort)
+  );
+}
+
+/**
+ * Wait for a number of milliseconds, rejecting early if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,184 @@
+/**
+ * Budgets on tokens, estimated cost and wall-clock time
+ *
+ * Budgets are checked before every model call of an agent loop. When a limit is nearly
+ * used up the agent is asked for a final answer; once it is used up the loop stops.
+ * Agents running at the same time under one budget see each other's spending as it happens.
+ */
+
+/**
+ * Limits on what a task or agent may spend (all optional)
+ */
+export interface BudgetConfig {
+  /**
+   * Maximum total tokens (prompt and completion)
+   */
+  maxTokens?: number;
+  /**
+   * Maximum estimated cost in USD (see TaskResult.cost)
+   */
+  maxCost?: number;
+  /**
+   * Maximum elapsed time in milliseconds
+   */
+  maxDurationMs?: number;
+  /**
+   * Fraction of any limit after which the agent is asked for its final answer (default: 0.8)
+   */
+  wrapUpAt?: number;
+}
+
+/**
+ * Kind of limit in a budget
+ */
+export type BudgetLimit = 'tokens' | 'cost' | 'time';
+
+/**
+ * Budget limit that stopped an agent, reported in TaskResult.budgetExceeded
+ */
+export interface BudgetExceeded {
+  limit: BudgetLimit;
+  /**
+   * Whether the task's budget or the agent's own budget ran out
+   */
+  scope: 'task' | 'agent';
+  /**
+   * Agent whose loop was stopped
+   */
+  agentName: string;
+  used: number;
+  max: number;
+}
+
+/**
+ * Tokens and estimated cost spent against a budget
+ */
+export interface BudgetSpend {
+  tokens: number;
+  cost: number;
+}
+
+/**
+ * A budget and what has been spent against it
+ */
+export interface BudgetScope {
+  scope: 'task' | 'agent';
+  budget: BudgetConfig;
+  startedAt: number;
+  /**
+   * Tokens and cost spent in this scope so far, not counting agents still running under it
+   */
+  spent(): BudgetSpend;
+  /**
+   * Report the running spending of the agent loop this scope was reserved for
+   * (only on scopes returned by reserveBudget)
+   */
+  track?(spent: () => BudgetSpend): void;
+}
+
+/**
+ * Spending of agent loops still running under a scope, by scope
+ */
+const running = new WeakMap<BudgetScope, Set<{ spent?: () => BudgetSpend }>>();
+
+/**
+ * Tokens and cost spent in a scope, including agents still running under it
+ */
+function spentIn(scope: BudgetScope): BudgetSpend {
+  const total = { ...scope.spent() };
+  for (const reservation of running.get(scope) ?? []) {
+    const spent = reservation.spent?.();
+    total.tokens += spent?.tokens ?? 0;
+    total.cost += spent?.cost ?? 0;
+  }
+  return total;
+}
+
+/**
+ * Reserve a share of a budget for an agent loop started under it, such as a dispatched worker
+ *
+ * The loop reports its spending through `scope.track()`, and the spending counts against the
+ * budget right away, for the loop and for every other one running under the same budget.
+ * Call `settle()` once the caller has added the loop's usage to its own totals.
+ */
+export function reserveBudget(parent: BudgetScope): { scope: BudgetScope; settle: () => void } {
+  const reservation: { spent?: () => BudgetSpend } = {};
+  const reservations = running.get(parent) ?? new Set();
+  running.set(parent, reservations.add(reservation));
+
+  return {
+    scope: {
+      scope: parent.scope,
+      budget: parent.budget,
+      startedAt: parent.startedAt,
+      spent: () => spentIn(parent),
+      track: spent => {
+        reservation.spent = spent;
+      },
+    },
+    settle: () => {
+      reservations.delete(reservation);
+    },
+  };
+}
+
+/**
+ * Result of checking budgets: keep going, wrap up with a final answer, or stop
+ */
+export type BudgetStatus =
+  | { state: 'ok' }
+  | { state: 'wrap-up' | 'exhausted'; exceeded: BudgetExceeded };
+
+const DEFAULT_WRAP_UP_AT = 0.8;
+
+/**
+ * Check budgets, reporting the most used limit across all scopes
+ */
+export function checkBudgets(
+  scopes: Array<BudgetScope | undefined>,
+  agentName: string
+): BudgetStatus {
+  let worst: { ratio: number; exceeded: BudgetExceeded; wrapUpAt: number } | undefined;
+
+  for (const scope of scopes) {
+    if (!scope) continue;
+
+    const { tokens, cost } = spentIn(scope);
+    const limits: Array<[BudgetLimit, number, number | undefined]> = [
+      ['tokens', tokens, scope.budget.maxTokens],
+      ['cost', cost, scope.budget.maxCost],
+      ['time', Date.now() - scope.startedAt, scope.budget.maxDurationMs],
+    ];
+
+    for (const [limit, used, max] of limits) {
+      if (max === undefined) continue;
+      const ratio = max > 0 ? used / max : Infinity;
+      if (!worst || ratio > worst.ratio) {
+        worst = {
+          ratio,
+          exceeded: { limit, scope: scope.scope, agentName, used, max },
+          wrapUpAt: scope.budget.wrapUpAt ?? DEFAULT_WRAP_UP_AT,
+        };
+      }
+    }
+  }
+
+  if (!worst || worst.ratio < worst.wrapUpAt) {
+    return { state: 'ok' };
+  }
+  return { state: worst.ratio >= 1 ? 'exhausted' : 'wrap-up', exceeded: worst.exceeded };
+}
+
+/**
+ * Describe an exceeded budget for logs and messages
+ */
+export function describeBudgetExceeded(exceeded: BudgetExceeded): string {
+  const amount = (value: number) =>
+    exceeded.limit === 'cost'
+      ? `$${value.toFixed(4)}`
+      : exceeded.limit === 'time'
+        ? `${value}ms`
+        : `${value} tokens`;
+  const limit = exceeded.limit === 'tokens' ? 'token' : exceeded.limit;
+  return `${exceeded.scope} ${limit} budget (${amount(exceeded.used)} of ${amount(exceeded.max)})`;
+}
@@ -0,0 +1,153 @@
+/**
+ * Cost accounting for provider calls
+ *
+ * Costs are computed from token usage and per-model prices (USD per million tokens),
+ * taken from the provider config's `pricing` option or the built-in pricing table.
+ * They are estimates: list prices change and discounts are not known to officeLLM.
+ */
+
+import type { IProvider, ProviderResponse } from '../providers/BaseProvider';
+import { getModelPricing, ModelPricing } from '../providers/ModelCapabilities';
+import { logger } from './logger';
+
+/**
+ * Cost of a task in USD, broken down by agent and by provider/model
+ */
+export interface CostReport {
+  total: number;
+  /**
+   * Cost per manager or worker name
+   */
+  byAgent: Record<string, number>;
+  /**
+   * Cost per `provider/model` that served the calls
+   */
+  byModel: Record<string, number>;
+  /**
+   * Provider calls whose model has no known pricing (not included in the totals)
+   */
+  unpricedCalls: number;
+}
+
+/**
+ * Models already reported as unpriced, so the warning is logged once per model
+ */
+const warnedModels = new Set<string>();
+
+/**
+ * Create an empty cost report
+ */
+export function createCostReport(): CostReport {
+  return { total: 0, byAgent: {}, byModel: {}, unpricedCalls: 0 };
+}
+
+/**
+ * Compute the cost of token usage in USD
+ * Cached prompt tokens are charged at the cached input price when one is known
+ */
+export function calculateCost(
+  usage: NonNullable<ProviderResponse['usage']>,
+  pricing: ModelPricing
+): number {
+  const cachedTokens = usage.cachedTokens ?? 0;
+  return (
+    ((usage.promptTokens - cachedTokens) * pricing.input +
+      cachedTokens * (pricing.cachedInput ?? pricing.input) +
+      usage.completionTokens * pricing.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Add the cost of a provider response to a report
+ *
+ * The model is the one that served the response (which differs from the agent's own
+ * provider after a fallback). Responses served from the response cache cost nothing.
+ */
+export function recordCost(
+  report: CostReport,
+  agentName: string,
+  provider: IProvider,
+  response: ProviderResponse
+): void {
+  if (response.cached) {
+    return;
+  }
+
+  const { servedBy } = response;
+  if (!servedBy) {
+    recordProviderCost(report, agentName, provider, response.usage);
+    return;
+  }
+  addCost(
+    report,
+    agentName,
+    `${servedBy.type}/${servedBy.model}`,
+    servedBy.pricing ?? getModelPricing(servedBy.model),
+    response.usage
+  );
+}
+
+/**
+ * Add the cost of tokens spent on a provider's own model, such as context summaries
+ */
+export function recordProviderCost(
+  report: CostReport,
+  agentName: string,
+  provider: IProvider,
+  usage: ProviderResponse['usage']
+): void {
+  const model = provider.config.model;
+  addCost(
+    report,
+    agentName,
+    `${provider.type}/${model}`,
+    provider.config.pricing ?? getModelPricing(model),
+    usage
+  );
+}
+
+/**
+ * Add the cost of token usage at the given prices to a report
+ */
+export function addCost(
+  report: CostReport,
+  agentName: string,
+  modelKey: string,
+  pricing: ModelPricing | undefined,
+  usage: ProviderResponse['usage']
+): void {
+  if (!usage) {
+    return;
+  }
+  if (!pricing) {
+    if (!warnedModels.has(modelKey)) {
+      warnedModels.add(modelKey);
+      logger.warn(
+        'COST',
+        `No pricing known for ${modelKey}; set it with registerModelPricing() or the provider's pricing option`
+      );
+    }
+    report.unpricedCalls++;
+    return;
+  }
+
+  const cost = calculateCost(usage, pricing);
+  report.total += cost;
+  report.byAgent[agentName] = (report.byAgent[agentName] ?? 0) + cost;
+  report.byModel[modelKey] = (report.byModel[modelKey] ?? 0) + cost;
+}
+
+/**
+ * Merge one cost report into another (e.g. a worker's into its manager's)
+ */
+export function mergeCostReport(target: CostReport, source: CostReport): void {
+  target.total += source.total;
+  target.unpricedCalls += source.unpricedCalls;
+  for (const [agentName, cost] of Object.entries(source.byAgent)) {
+    target.byAgent[agentName] = (target.byAgent[agentName] ?? 0) + cost;
+  }
+  for (const [modelKey, cost] of Object.entries(source.byModel)) {
+    target.byModel[modelKey] = (target.byModel[modelKey] ?? 0) + cost;
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * Centralized Logger Utility for OfficeLLM
- * 
+ *
  * Provides consistent logging across the framework with timestamps and log levels
  */
 
@@ -42,7 +42,7 @@ export class Logger {
   private format(level: string, component: string, message: string): string {
     const timestamp = this.config.timestamps ? new Date().toISOString() : '';
     const prefix = this.config.prefix ? `${this.config.prefix}:` : '';
-    
+
     if (this.config.timestamps) {
       return `[${timestamp}] [${prefix}${level}${component ? `:${component}` : ''}] ${message}`;
     }
@@ -104,11 +104,14 @@ export const defaultLogger = new Logger({
 
 // Export convenience functions
 export const logger = {
-  debug: (component: string, message: string, data?: any) => defaultLogger.debug(component, message, data),
-  info: (component: string, message: string, data?: any) => defaultLogger.info(component, message, data),
-  warn: (component: string, message: string, data?: any) => defaultLogger.warn(component, message, data),
-  error: (component: string, message: string, error?: any) => defaultLogger.error(component, message, error),
+  debug: (component: string, message: string, data?: any) =>
+    defaultLogger.debug(component, message, data),
+  info: (component: string, message: string, data?: any) =>
+    defaultLogger.info(component, message, data),
+  warn: (component: string, message: string, data?: any) =>
+    defaultLogger.warn(component, message, data),
+  error: (component: string, message: string, error?: any) =>
+    defaultLogger.error(component, message, error),
   setLevel: (level: LogLevel) => defaultLogger.setLevel(level),
   child: (prefix: string) => defaultLogger.child(prefix),
 };
-
@@ -0,0 +1,78 @@
+/**
+ * Helpers for building image and file content parts
+ */
+
+import { promises as fs } from 'fs';
+import { basename, extname } from 'path';
+import type { ContentPart, MediaSource } from '../providers/BaseProvider';
+
+const MEDIA_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.json': 'application/json',
+};
+
+/**
+ * Guess a media type from a file name or URL extension
+ */
+export function inferMediaType(pathOrUrl: string): string | undefined {
+  const path = pathOrUrl.split(/[?#]/)[0];
+  return MEDIA_TYPES[extname(path).toLowerCase()];
+}
+
+/**
+ * Media type of a source, from its declaration or its URL
+ */
+export function getMediaType(source: MediaSource): string | undefined {
+  return source.mediaType ?? (source.type === 'url' ? inferMediaType(source.url) : undefined);
+}
+
+/**
+ * Express a source as a URL, using a data URL for inline content
+ */
+export function toDataUrl(source: MediaSource): string {
+  return source.type === 'url' ? source.url : `data:${source.mediaType};base64,${source.data}`;
+}
+
+/**
+ * Read a local file into an image or file content part
+ *
+ * @example
+ * ```typescript
+ * await office.executeTask({
+ *   title: 'Review invoice',
+ *   description: 'Check the totals on the attached invoice',
+ *   attachments: [await readAttachment('./invoice.pdf')],
+ * });
+ * ```
+ */
+export async function readAttachment(path: string, mediaType?: string): Promise<ContentPart> {
+  const type = mediaType ?? inferMediaType(path) ?? 'application/octet-stream';
+  const source: MediaSource = {
+    type: 'base64',
+    mediaType: type,
+    data: (await fs.readFile(path)).toString('base64'),
+  };
+
+  return type.startsWith('image/')
+    ? { type: 'image', source, name: basename(path) }
+    : { type: 'file', source, name: basename(path) };
+}
+
+/**
+ * Short description of a content part, for logs and transcripts
+ */
+export function describePart(part: ContentPart): string {
+  if (part.type === 'text') {
+    return part.text;
+  }
+  return `[${part.type}${part.name ? ` ${part.name}` : ''} (${getMediaType(part.source) ?? 'unknown type'})]`;
+}
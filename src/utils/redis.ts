@@ -0,0 +1,38 @@
+import { createClient } from 'redis';
+
+/**
+ * Connection settings shared by every Redis-backed component (memory, cache, rate limiter)
+ */
+export interface RedisConnectionConfig {
+  host: string;
+  port: number;
+  tls?: boolean;
+  password?: string;
+  db?: number;
+}
+
+/**
+ * Build a Redis connection URL
+ * Format: redis[s]://[[username][:password]@][host][:port][/db-number]
+ */
+export function buildRedisUrl(config: RedisConnectionConfig): string {
+  let url = config.tls ? 'rediss://' : 'redis://';
+  if (config.password) {
+    // Redis uses default username if not specified
+    url += `default:${config.password}@`;
+  }
+  url += `${config.host}:${config.port}`;
+  if (config.db !== undefined) {
+    url += `/${config.db}`;
+  }
+  return url;
+}
+
+/**
+ * Create a (not yet connected) Redis client from connection settings
+ */
+export function createRedisClient(config: RedisConnectionConfig) {
+  return createClient({
+    url: buildRedisUrl(config),
+  });
+}
@@ -0,0 +1,231 @@
+/**
+ * Retry utility with exponential backoff for provider calls
+ *
+ * Classifies errors as retryable (rate limits, overloaded or unavailable servers,
+ * network failures) or fatal (bad requests, authentication), and honors
+ * Retry-After hints returned by the provider.
+ */
+
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { logger } from './logger';
+import { sleep } from './abort';
+
+/**
+ * Retry configuration for provider calls
+ */
+export interface RetryConfig {
+  /**
+   * Total number of attempts, including the first one (default: 3, use 1 to disable retries)
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry in milliseconds (default: 1000)
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound for computed backoff delays and accepted Retry-After hints (default: 30000)
+   */
+  maxDelayMs?: number;
+  /**
+   * Multiplier applied to the delay after each failed attempt (default: 2)
+   */
+  backoffMultiplier?: number;
+  /**
+   * Randomize delays to avoid synchronized retries across agents (default: true)
+   */
+  jitter?: boolean;
+  /**
+   * HTTP status codes treated as retryable
+   */
+  retryableStatusCodes?: number[];
+}
+
+/**
+ * Result of an operation executed with retries
+ */
+export interface RetryOutcome<T> {
+  value: T;
+  retries: number;
+}
+
+const DEFAULT_RETRYABLE_STATUS_CODES = [408, 409, 425, 429, 500, 502, 503, 504, 529];
+
+const RETRYABLE_NETWORK_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+];
+
+const RETRYABLE_ERROR_CLASSES = [OpenAI.APIConnectionError, Anthropic.APIConnectionError];
+
+// Matched by name for errors from other copies of the SDKs and fetch libraries
+const RETRYABLE_ERROR_NAMES = ['APIConnectionError', 'APIConnectionTimeoutError', 'FetchError'];
+
+// Gemini wraps network failures as "Error fetching from <url>: <message>" without a cause
+const GEMINI_FETCH_ERROR =
+  /Error fetching from \S+: (fetch failed|.*(socket|network|timed? ?out))/i;
+
+// Bounds the cause chain walk in case of cyclic causes
+const MAX_CAUSE_DEPTH = 10;
+
+/**
+ * Get the HTTP status code attached to a provider SDK error, if any
+ */
+export function getErrorStatus(error: any): number | undefined {
+  const status = error?.status ?? error?.statusCode ?? error?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Check whether an error is worth retrying
+ */
+export function isRetryableError(
+  error: any,
+  retryableStatusCodes = DEFAULT_RETRYABLE_STATUS_CODES
+): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return retryableStatusCodes.includes(status);
+  }
+
+  // No HTTP status: only network-level failures are retryable
+  let current = error;
+  for (let depth = 0; current && depth < MAX_CAUSE_DEPTH; depth++, current = current.cause) {
+    if (isNetworkError(current)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check a single error (without its causes) for a connection failure or timeout
+ */
+function isNetworkError(error: any): boolean {
+  if (RETRYABLE_ERROR_CLASSES.some(ErrorClass => error instanceof ErrorClass)) {
+    return true;
+  }
+  if (typeof error?.code === 'string' && RETRYABLE_NETWORK_CODES.includes(error.code)) {
+    return true;
+  }
+  if ([error?.name, error?.constructor?.name].some(name => RETRYABLE_ERROR_NAMES.includes(name))) {
+    return true;
+  }
+  if (typeof error?.message === 'string' && GEMINI_FETCH_ERROR.test(error.message)) {
+    return true;
+  }
+  // undici reports connection failures as a bare "fetch failed" TypeError
+  return error instanceof TypeError && error.message === 'fetch failed';
+}
+
+/**
+ * Read the delay requested by the provider (Retry-After headers or Gemini RetryInfo)
+ * Returns undefined when the error carries no hint
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+  const headers = error?.headers ?? error?.response?.headers;
+  const readHeader = (name: string): string | undefined => {
+    if (!headers) return undefined;
+    const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+    return value ?? undefined;
+  };
+
+  const retryAfterMs = readHeader('retry-after-ms');
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = readHeader('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  // Gemini reports the delay as a google.rpc.RetryInfo detail, e.g. { retryDelay: '30s' }
+  if (Array.isArray(error?.errorDetails)) {
+    const retryInfo = error.errorDetails.find(
+      (detail: any) => typeof detail?.retryDelay === 'string'
+    );
+    const seconds = retryInfo ? parseFloat(retryInfo.retryDelay) : NaN;
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Run an operation, retrying retryable failures with exponential backoff
+ *
+ * @param operation - The operation to run
+ * @param config - Retry configuration
+ * @param component - Logger component used for retry logs
+ * @param signal - Stops retrying (and waiting to retry) once aborted
+ */
+export async function retryWithBackoff<T>(
+  operation: () => Promise<T>,
+  config: RetryConfig = {},
+  component = 'RETRY',
+  signal?: AbortSignal
+): Promise<RetryOutcome<T>> {
+  const maxAttempts = Math.max(1, config.maxAttempts ?? 3);
+  const initialDelayMs = config.initialDelayMs ?? 1000;
+  const maxDelayMs = config.maxDelayMs ?? 30000;
+  const backoffMultiplier = config.backoffMultiplier ?? 2;
+  const jitter = config.jitter ?? true;
+  const retryableStatusCodes = config.retryableStatusCodes ?? DEFAULT_RETRYABLE_STATUS_CODES;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const value = await operation();
+      return { value, retries: attempt - 1 };
+    } catch (error) {
+      if (
+        signal?.aborted ||
+        attempt >= maxAttempts ||
+        !isRetryableError(error, retryableStatusCodes)
+      ) {
+        throw error;
+      }
+
+      const retryAfterMs = getRetryAfterMs(error);
+      if (retryAfterMs !== undefined && retryAfterMs > maxDelayMs) {
+        logger.warn(
+          component,
+          `Provider asked to retry after ${retryAfterMs}ms, which exceeds maxDelayMs (${maxDelayMs}ms); giving up`
+        );
+        throw error;
+      }
+
+      let delayMs = Math.min(maxDelayMs, initialDelayMs * Math.pow(backoffMultiplier, attempt - 1));
+      if (jitter) {
+        // Equal jitter: pick a random delay between half and the whole backoff window
+        delayMs = delayMs / 2 + Math.random() * (delayMs / 2);
+      }
+      if (retryAfterMs !== undefined) {
+        delayMs = Math.max(delayMs, retryAfterMs);
+      }
+      delayMs = Math.round(delayMs);
+
+      const status = getErrorStatus(error);
+      logger.warn(
+        component,
+        `Attempt ${attempt}/${maxAttempts} failed${status ? ` (HTTP ${status})` : ''}: ${error instanceof Error ? error.message : 'Unknown error'}. Retrying in ${delayMs}ms`
+      );
+
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Helpers for rendering worker input into a prompt
+ */
+
+/**
+ * Template turning a worker's input into its task prompt
+ *
+ * A string template replaces `{{key}}` placeholders (dot paths reach nested values, e.g.
+ * `{{filters.region}}`) with the input values; strings are inserted as-is and other values
+ * as JSON. A function receives the validated input and returns the prompt.
+ */
+export type PromptTemplate = string | ((input: Record<string, any>) => string);
+
+const PLACEHOLDER = /\{\{\s*([\w$]+(?:\.[\w$]+)*)\s*\}\}/g;
+
+/**
+ * Render worker input with a template, or as `key: value` lines when there is none
+ */
+export function renderPrompt(input: Record<string, any>, template?: PromptTemplate): string {
+  if (typeof template === 'function') {
+    return template(input);
+  }
+
+  if (template === undefined) {
+    return Object.entries(input)
+      .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+      .join('\n');
+  }
+
+  return template.replace(PLACEHOLDER, (_match, path: string) => {
+    const value = path.split('.').reduce<any>((current, key) => current?.[key], input);
+    if (value === undefined) {
+      return '';
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
@@ -0,0 +1,86 @@
+/**
+ * Token counting utilities for context window budgeting
+ *
+ * Exact counts need the model's own tokenizer, which is not bundled. The default
+ * estimator uses a characters-per-token ratio; plug in a real tokenizer per provider
+ * type (registerTokenizer) or per provider config (`tokenizer`) when precision matters.
+ */
+
+import { z } from 'zod';
+import type { ProviderMessage, ProviderType, ToolDefinition } from '../providers/BaseProvider';
+
+/**
+ * Counts the tokens in a piece of text
+ */
+export interface Tokenizer {
+  countTokens(text: string): number;
+}
+
+/**
+ * Fixed overhead per message for role markers and separators
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Rough cost of an image or file part; actual costs depend on resolution and page count
+ */
+const MEDIA_PART_TOKENS = 1000;
+
+/**
+ * Tokenizer estimating one token per `charsPerToken` characters
+ */
+export class EstimatingTokenizer implements Tokenizer {
+  constructor(private charsPerToken: number = 4) {}
+
+  countTokens(text: string): number {
+    return Math.ceil(text.length / this.charsPerToken);
+  }
+}
+
+const defaultTokenizer = new EstimatingTokenizer();
+const tokenizers = new Map<ProviderType, Tokenizer>();
+
+/**
+ * Register the tokenizer used for a provider type
+ */
+export function registerTokenizer(type: ProviderType, tokenizer: Tokenizer): void {
+  tokenizers.set(type, tokenizer);
+}
+
+/**
+ * Resolve the tokenizer for a provider: its config override, then the one
+ * registered for its type, then the default estimator
+ */
+export function getTokenizer(config: { type: ProviderType; tokenizer?: Tokenizer }): Tokenizer {
+  return config.tokenizer ?? tokenizers.get(config.type) ?? defaultTokenizer;
+}
+
+/**
+ * Count the tokens a message contributes to a prompt
+ */
+export function countMessageTokens(message: ProviderMessage, tokenizer: Tokenizer): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + tokenizer.countTokens(message.content);
+  for (const part of message.parts ?? []) {
+    tokens += part.type === 'text' ? tokenizer.countTokens(part.text) : MEDIA_PART_TOKENS;
+  }
+  for (const toolCall of message.toolCalls ?? []) {
+    tokens +=
+      tokenizer.countTokens(toolCall.function.name) +
+      tokenizer.countTokens(toolCall.function.arguments);
+  }
+  return tokens;
+}
+
+/**
+ * Count the tokens tool definitions contribute to a prompt
+ */
+export function countToolTokens(tools: ToolDefinition[] | undefined, tokenizer: Tokenizer): number {
+  return (tools ?? []).reduce(
+    (total, tool) =>
+      total +
+      tokenizer.countTokens(
+        `${tool.name}\n${tool.description}\n${JSON.stringify(z.toJSONSchema(tool.parameters))}`
+      ),
+    0
+  );
+}
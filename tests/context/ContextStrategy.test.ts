@@ -0,0 +1,194 @@
+import {
+  createContextStrategy,
+  ContextWindowLimit,
+  ProviderMessage,
+  ProviderScript,
+  ScriptedProvider,
+  splitTurns,
+  logger,
+  LogLevel,
+} from '../../src';
+
+const toolCall = (id: string) => ({
+  id,
+  type: 'function' as const,
+  function: { name: 'lookup', arguments: '{}' },
+});
+
+// Two tasks; the first one's assistant turn made two tool calls
+const conversation: ProviderMessage[] = [
+  { role: 'system', content: 'You are a worker' },
+  { role: 'user', content: 'task 1' },
+  { role: 'assistant', content: '', toolCalls: [toolCall('c1'), toolCall('c2')] },
+  { role: 'tool', content: 'result 1', toolCallId: 'c1' },
+  { role: 'tool', content: 'result 2', toolCallId: 'c2' },
+  { role: 'assistant', content: 'task 1 done' },
+  { role: 'user', content: 'task 2' },
+  { role: 'assistant', content: '', toolCalls: [toolCall('c3')] },
+  { role: 'tool', content: 'result 3', toolCallId: 'c3' },
+];
+const taskIndex = 6;
+
+const messagesWindow = (maxMessages: number): ContextWindowLimit => ({
+  type: 'messages',
+  maxMessages,
+});
+const provider = new ScriptedProvider({
+  type: 'scripted',
+  apiKey: '',
+  model: 'scripted',
+  script: [],
+});
+const contents = (messages: ProviderMessage[]) => messages.map(message => message.content);
+
+describe('context strategies', () => {
+  beforeAll(() => logger.setLevel(LogLevel.NONE));
+  afterAll(() => logger.setLevel(LogLevel.INFO));
+
+  it('splits a conversation into turns that keep tool results with their call', () => {
+    const turns = splitTurns(conversation, 1);
+    expect(turns.map(turn => turn.start)).toEqual([1, 2, 5, 6, 7]);
+    expect(turns[1].messages.map(message => message.toolCallId)).toEqual([undefined, 'c1', 'c2']);
+  });
+
+  it('sends the conversation unchanged while it fits', async () => {
+    const truncate = createContextStrategy({ type: 'truncate' });
+    const result = await truncate.apply({
+      messages: conversation,
+      taskIndex,
+      window: messagesWindow(20),
+      provider,
+    });
+    expect(result.messages).toBe(conversation);
+  });
+
+  it('drops the oldest whole turns', async () => {
+    const truncate = createContextStrategy({ type: 'truncate' });
+
+    const result = await truncate.apply({
+      messages: conversation,
+      taskIndex,
+      window: messagesWindow(5),
+      provider,
+    });
+    expect(contents(result.messages)).toEqual([
+      'You are a worker',
+      'task 1 done',
+      'task 2',
+      '',
+      'result 3',
+    ]);
+
+    // The assistant turn with two tool calls does not fit in one more message, so none of it is sent
+    const tighter = await truncate.apply({
+      messages: conversation,
+      taskIndex,
+      window: messagesWindow(6),
+      provider,
+    });
+    expect(
+      tighter.messages.some(message => message.toolCallId === 'c1' || message.toolCallId === 'c2')
+    ).toBe(false);
+  });
+
+  it('always keeps the system prompt, the current task and the newest turn', async () => {
+    const truncate = createContextStrategy({ type: 'truncate' });
+    const result = await truncate.apply({
+      messages: conversation,
+      taskIndex,
+      window: messagesWindow(1),
+      provider,
+    });
+    expect(contents(result.messages)).toEqual(['You are a worker', 'task 2', '', 'result 3']);
+  });
+
+  it('keeps the first task with keep-first-task', async () => {
+    const keepFirstTask = createContextStrategy({ type: 'keep-first-task' });
+    const result = await keepFirstTask.apply({
+      messages: conversation,
+      taskIndex,
+      window: messagesWindow(5),
+      provider,
+    });
+    expect(contents(result.messages)).toEqual([
+      'You are a worker',
+      'task 1',
+      'task 2',
+      '',
+      'result 3',
+    ]);
+  });
+
+  it('replaces evicted turns with a summary and reports its usage', async () => {
+    const script = new ProviderScript([
+      {
+        response: {
+          content: 'Looked things up for task 1',
+          usage: { promptTokens: 40, completionTokens: 10, totalTokens: 50 },
+        },
+      },
+    ]);
+    const summarizer = new ScriptedProvider({
+      type: 'scripted',
+      apiKey: '',
+      model: 'summarizer',
+      script,
+    });
+    const summarize = createContextStrategy({ type: 'summarize' });
+
+    const result = await summarize.apply({
+      messages: conversation,
+      taskIndex,
+      window: messagesWindow(5),
+      provider: summarizer,
+    });
+
+    expect(contents(result.messages)).toEqual([
+      'You are a worker',
+      'Summary of the earlier conversation:\nLooked things up for task 1',
+      'task 2',
+      '',
+      'result 3',
+    ]);
+    expect(result.usage?.totalTokens).toBe(50);
+    // Summaries written by the agent's own provider are priced as its calls
+    expect(result.provider).toBeUndefined();
+    expect(script.calls[0].messages[1].content).toContain('[calls lookup({})]');
+
+    // Turns already summarized are not summarized again
+    const again = await summarize.apply({
+      messages: conversation,
+      taskIndex,
+      window: messagesWindow(5),
+      provider: summarizer,
+    });
+    expect(again.usage).toBeUndefined();
+    expect(again.messages[1].content).toContain('Looked things up for task 1');
+  });
+
+  it('reports a separate summary provider so its usage is priced at its model', async () => {
+    const script = new ProviderScript([
+      {
+        response: {
+          content: 'Earlier work',
+          usage: { promptTokens: 40, completionTokens: 10, totalTokens: 50 },
+        },
+      },
+    ]);
+    const summarize = createContextStrategy({
+      type: 'summarize',
+      provider: { type: 'scripted', apiKey: '', model: 'cheap-summarizer', script },
+    });
+
+    const result = await summarize.apply({
+      messages: conversation,
+      taskIndex,
+      window: messagesWindow(5),
+      provider,
+    });
+
+    expect(result.usage?.totalTokens).toBe(50);
+    expect(result.provider?.config.model).toBe('cheap-summarizer');
+    expect(script.calls).toHaveLength(1);
+  });
+});
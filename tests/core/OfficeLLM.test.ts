@@ -0,0 +1,999 @@
+import { z } from 'zod';
+import {
+  OfficeLLM,
+  ProviderScript,
+  ScriptedConfig,
+  ScriptedTurn,
+  SubOfficeConfig,
+  ProviderMiddleware,
+  ManagerConfig,
+  TaskStreamEvent,
+  WorkerConfig,
+  logger,
+  LogLevel,
+} from '../../src';
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+
+const usage = (totalTokens: number) => ({
+  promptTokens: totalTokens,
+  completionTokens: 0,
+  totalTokens,
+});
+
+function scripted(script: ProviderScript, middleware?: ProviderMiddleware[]): ScriptedConfig {
+  return { type: 'scripted', apiKey: '', model: 'scripted', script, middleware };
+}
+
+function worker(
+  name: string,
+  script: ProviderScript,
+  config: Partial<WorkerConfig> = {}
+): WorkerConfig {
+  return {
+    name,
+    description: `${name} worker`,
+    systemPrompt: `You are ${name}`,
+    provider: scripted(script),
+    ...config,
+  };
+}
+
+function createOffice(
+  managerTurns: ScriptedTurn[],
+  workers: Array<WorkerConfig | SubOfficeConfig>,
+  managerConfig: Partial<ManagerConfig> = {}
+): { office: OfficeLLM; manager: ProviderScript } {
+  const manager = new ProviderScript(managerTurns);
+  const office = new OfficeLLM({
+    manager: {
+      name: 'manager',
+      description: 'Coordinates the team',
+      systemPrompt: 'You manage workers',
+      provider: scripted(manager),
+      ...managerConfig,
+    },
+    workers,
+  });
+  return { office, manager };
+}
+
+const call = (name: string, task: string) => ({
+  name,
+  arguments: { task, context: '', metadata: {} },
+});
+
+const lookupTool = {
+  name: 'lookup',
+  description: 'Look something up',
+  parameters: z.object({}),
+};
+
+/**
+ * Check that every tool call in a history has a result
+ */
+function expectToolCallsAnswered(
+  messages: Array<{ toolCalls?: Array<{ id: string }>; toolCallId?: string }>
+) {
+  const called = messages.flatMap(message => message.toolCalls ?? []).map(toolCall => toolCall.id);
+  const answered = messages
+    .filter(message => message.toolCallId)
+    .map(message => message.toolCallId);
+  expect(answered).toEqual(called);
+}
+
+describe('OfficeLLM', () => {
+  beforeAll(() => logger.setLevel(LogLevel.NONE));
+  afterAll(() => logger.setLevel(LogLevel.INFO));
+
+  it('streams manager and worker activity and ends with the result', async () => {
+    const workerScript = new ProviderScript([
+      { response: { toolCalls: [{ name: 'lookup', arguments: {} }] } },
+      { response: { content: 'found it', usage: usage(20) } },
+    ]);
+    const { office } = createOffice(
+      [
+        { response: { content: 'Asking', toolCalls: [call('searcher', 'search')] } },
+        { response: { content: 'All done', usage: usage(10) } },
+      ],
+      [
+        worker('searcher', workerScript, {
+          tools: [lookupTool],
+          toolImplementations: { lookup: async () => 'result' },
+        }),
+      ]
+    );
+
+    const events: TaskStreamEvent[] = [];
+    for await (const event of office.executeTaskStream({ title: 'Search', description: 'Find' })) {
+      events.push(event);
+    }
+
+    expect(events.map(event => event.type)).toEqual([
+      'manager_token',
+      'worker_started',
+      'tool_call',
+      'tool_result',
+      'worker_token',
+      'worker_finished',
+      'manager_token',
+      'result',
+    ]);
+    const last = events[events.length - 1];
+    expect(last.type === 'result' && last.result).toMatchObject({
+      success: true,
+      content: 'All done',
+    });
+  });
+
+  it('keeps histories valid and stores the conversations when the consumer stops reading', async () => {
+    const workerScript = new ProviderScript([
+      { response: { toolCalls: [{ name: 'lookup', arguments: {} }] } },
+      { response: { content: 'second task done' } },
+    ]);
+    const { office } = createOffice(
+      [{ response: { toolCalls: [call('searcher', 'search')] } }],
+      [
+        worker('searcher', workerScript, {
+          tools: [lookupTool],
+          toolImplementations: { lookup: async () => 'result' },
+        }),
+      ]
+    );
+
+    const store = jest.spyOn(office.getMemory(), 'storeConversation');
+
+    for await (const event of office.executeTaskStream({ title: 'Search', description: 'Find' })) {
+      if (event.type === 'tool_call') break;
+    }
+    expect(store.mock.calls.map(([conversation]) => conversation.agentName).sort()).toEqual([
+      'manager',
+      'searcher',
+    ]);
+
+    const next = await office.callWorker('searcher', { task: 'second' });
+    expect(next.content).toBe('second task done');
+    const history = workerScript.calls[1].messages;
+    expectToolCallsAnswered(history);
+    expect(history.find(message => message.toolCallId)?.content).toBe(
+      'Cancelled: the run was stopped'
+    );
+  });
+
+  it('runs worker calls from one response concurrently and answers them in call order', async () => {
+    const slow: ProviderMiddleware = async (request, next) => {
+      await delay(100);
+      return next(request);
+    };
+    const slowScript = new ProviderScript([{ response: { content: 'slow result' } }]);
+    const fastScript = new ProviderScript([{ response: { content: 'fast result' } }]);
+
+    const { office, manager } = createOffice(
+      [
+        { response: { toolCalls: [call('slow', 'a'), call('fast', 'b')] } },
+        {
+          response: messages => ({
+            content: messages
+              .filter(message => message.role === 'tool')
+              .map(message => message.content)
+              .join(', '),
+          }),
+        },
+      ],
+      [
+        { ...worker('slow', slowScript), provider: scripted(slowScript, [slow]) },
+        worker('fast', fastScript),
+      ]
+    );
+
+    const finished: string[] = [];
+    let result;
+    for await (const event of office.executeTaskStream({
+      title: 'Parallel',
+      description: 'Ask both workers',
+    })) {
+      if (event.type === 'worker_finished') finished.push(event.workerName);
+      if (event.type === 'result') result = event.result;
+    }
+
+    expect(finished).toEqual(['fast', 'slow']);
+    expect(result!.content).toBe('slow result, fast result');
+    expect(
+      manager.calls[1].messages.filter(message => message.role === 'tool').map(m => m.toolCallId)
+    ).toEqual(['call_1_1', 'call_1_2']);
+    manager.assertConsumed();
+  });
+
+  it('stops the other workers when one call fails and keeps their histories valid', async () => {
+    const searcherScript = new ProviderScript([
+      {
+        response: {
+          toolCalls: [
+            { name: 'lookup', arguments: {} },
+            { name: 'lookup', arguments: {} },
+          ],
+        },
+      },
+      { response: { content: 'second run' } },
+    ]);
+    // The malformed call starts once the quick worker is done, while the searcher looks up
+    const { office } = createOffice(
+      [
+        {
+          response: {
+            toolCalls: [
+              call('searcher', 'search'),
+              call('quick', 'answer'),
+              { name: 'quick', arguments: '{"task": ' },
+            ],
+          },
+        },
+      ],
+      [
+        worker('searcher', searcherScript, {
+          tools: [lookupTool],
+          toolImplementations: { lookup: () => delay(20).then(() => 'found') },
+        }),
+        worker('quick', new ProviderScript([{ response: { content: 'quick answer' } }])),
+      ],
+      { maxConcurrentWorkers: 2 }
+    );
+
+    const result = await office.executeTask({ title: 'Search', description: 'Find it' });
+    expect(result.status).toBe('failed');
+
+    const next = await office.callWorker('searcher', { task: 'again' });
+    expect(next.content).toBe('second run');
+    const history = searcherScript.calls[1].messages;
+    expectToolCallsAnswered(history);
+    expect(history.filter(message => message.role === 'tool').map(m => m.content)).toContain(
+      'Cancelled: the run was stopped'
+    );
+  });
+
+  it('forwards the task attachments the manager selects to the worker', async () => {
+    const image = {
+      type: 'image' as const,
+      name: 'chart.png',
+      source: { type: 'base64' as const, mediaType: 'image/png', data: 'iVBORw==' },
+    };
+    const pdf = {
+      type: 'file' as const,
+      name: 'report.pdf',
+      source: { type: 'base64' as const, mediaType: 'application/pdf', data: 'JVBERi0=' },
+    };
+    const workerScript = new ProviderScript([{ response: { content: 'The chart goes up' } }]);
+    const { office, manager } = createOffice(
+      [
+        {
+          response: {
+            toolCalls: [
+              {
+                name: 'analyst',
+                arguments: {
+                  task: 'describe the chart',
+                  context: '',
+                  metadata: {},
+                  attachments: [0],
+                },
+              },
+            ],
+          },
+        },
+        { response: { content: 'Done' } },
+      ],
+      [worker('analyst', workerScript)]
+    );
+
+    await office.executeTask({
+      title: 'Review',
+      description: 'Review the material',
+      attachments: [image, pdf],
+    });
+
+    const task = manager.calls[0].messages[1];
+    expect(task.parts).toEqual([image, pdf]);
+    expect(task.content).toContain('0: [image chart.png (image/png)]');
+    expect(manager.calls[0].tools?.[0].parameters.shape).toHaveProperty('attachments');
+
+    const workerTask = workerScript.calls[0].messages[1];
+    expect(workerTask.parts).toEqual([image]);
+    expect(workerTask.content).not.toContain('attachments');
+  });
+
+  it('asks the manager again when the final answer does not match the output schema', async () => {
+    const { office, manager } = createOffice(
+      [
+        { response: { content: 'The answer is four' } },
+        { response: { content: '```json\n{"answer": 4}\n```' } },
+      ],
+      []
+    );
+
+    const result = await office.executeTask({
+      title: 'Math',
+      description: 'What is 2 + 2?',
+      outputSchema: z.object({ answer: z.number() }),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ answer: 4 });
+    const reprompt = manager.calls[1].messages[manager.calls[1].messages.length - 1];
+    expect(reprompt.content).toContain('does not match the required output schema');
+    expect(manager.calls[1].options?.responseFormat?.name).toBe('final_answer');
+  });
+
+  it('re-prompts with the full previous answer and the workers declared but not callable', async () => {
+    const thinkingBlocks = [{ type: 'thinking' as const, thinking: 'Sum it', signature: 'sig' }];
+    const workerScript = new ProviderScript([{ response: { content: '4' } }]);
+    const { office, manager } = createOffice(
+      [
+        { response: { toolCalls: [call('calculator', '2 + 2')] } },
+        { response: { content: 'It is 4', reasoning: 'Sum it', thinkingBlocks } },
+        { response: { content: '{"answer": 4}' } },
+      ],
+      [worker('calculator', workerScript)]
+    );
+
+    const result = await office.executeTask({
+      title: 'Math',
+      description: 'What is 2 + 2?',
+      outputSchema: z.object({ answer: z.number() }),
+    });
+
+    expect(result.data).toEqual({ answer: 4 });
+    const retry = manager.calls[2];
+    expect(retry.messages[retry.messages.length - 2]).toMatchObject({
+      role: 'assistant',
+      content: 'It is 4',
+      reasoning: 'Sum it',
+      thinkingBlocks,
+    });
+    expect(retry.tools?.map(tool => tool.name)).toEqual(['calculator']);
+    expect(retry.options?.toolChoice).toBe('none');
+  });
+
+  it('fails when the final answer still does not match after the retries', async () => {
+    const { office } = createOffice(
+      [{ response: { content: 'nope' } }, { response: { content: '{"answer": "four"}' } }],
+      [],
+      { maxOutputRetries: 1 }
+    );
+
+    const result = await office.executeTask({
+      title: 'Math',
+      description: 'What is 2 + 2?',
+      outputSchema: z.object({ answer: z.number() }),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.status).toBe('failed');
+    console.log(result.error);
+    expect(result.error).toContain('Final answer does not match the output schema');
+  });
+
+  it('reports the task cost per agent and model', async () => {
+    const million = { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 };
+    const managerScript = new ProviderScript([
+      { response: { toolCalls: [call('writer', 'write')], usage: million } },
+      { response: { content: 'Done', usage: million } },
+    ]);
+    const writerScript = new ProviderScript([{ response: { content: 'draft', usage: million } }]);
+    const office = new OfficeLLM({
+      manager: {
+        name: 'manager',
+        description: 'Coordinates the team',
+        systemPrompt: 'You manage workers',
+        provider: {
+          ...scripted(managerScript),
+          model: 'planner',
+          pricing: { input: 1, output: 0 },
+        },
+      },
+      workers: [
+        worker('writer', writerScript, {
+          provider: {
+            ...scripted(writerScript),
+            model: 'author',
+            pricing: { input: 3, output: 0 },
+          },
+        }),
+      ],
+    });
+
+    const result = await office.executeTask({ title: 'Write', description: 'Write it' });
+
+    expect(result.cost).toEqual({
+      total: 5,
+      byAgent: { manager: 2, writer: 3 },
+      byModel: { 'scripted/planner': 2, 'scripted/author': 3 },
+      unpricedCalls: 0,
+    });
+  });
+
+  it('runs the office middleware on every agent and summary provider call', async () => {
+    const models: string[] = [];
+    const summaryScript = new ProviderScript([{ response: { content: 'Wrote the first draft' } }]);
+    const writerScript = new ProviderScript([
+      { response: { content: 'first draft' } },
+      { response: { content: 'second draft' } },
+    ]);
+    const office = new OfficeLLM({
+      manager: {
+        name: 'manager',
+        description: 'Coordinates the team',
+        systemPrompt: 'You manage workers',
+        provider: scripted(new ProviderScript([])),
+      },
+      workers: [
+        worker('writer', writerScript, {
+          contextWindow: 3,
+          contextStrategy: {
+            type: 'summarize',
+            provider: { ...scripted(summaryScript), model: 'summarizer' },
+          },
+        }),
+      ],
+      middleware: [
+        (request, next) => {
+          models.push(request.provider.config.model);
+          return next(request);
+        },
+      ],
+    });
+
+    await office.callWorker('writer', { task: 'first' });
+    await office.callWorker('writer', { task: 'second' });
+
+    expect(models).toEqual(['scripted', 'summarizer', 'scripted']);
+    expect(writerScript.calls[1].messages[1].content).toContain('Wrote the first draft');
+  });
+
+  it('asks for a final answer without tool calls when the task budget is nearly used up', async () => {
+    const workerScript = new ProviderScript([
+      { response: { toolCalls: [{ name: 'lookup', arguments: {} }], usage: usage(300) } },
+      { response: { toolCalls: [{ name: 'lookup', arguments: {} }], usage: usage(300) } },
+      { response: { content: 'partial findings', usage: usage(10) } },
+    ]);
+    const { office, manager } = createOffice(
+      [
+        { response: { toolCalls: [call('researcher', 'research')], usage: usage(100) } },
+        { response: { content: 'best effort answer', usage: usage(10) } },
+      ],
+      [
+        worker('researcher', workerScript, {
+          tools: [lookupTool],
+          toolImplementations: { lookup: async () => 'found' },
+        }),
+      ]
+    );
+
+    const result = await office.executeTask({
+      title: 'Research',
+      description: 'Find out',
+      budget: { maxTokens: 800 },
+    });
+
+    expect(result.content).toBe('best effort answer');
+    expect(result.budgetExceeded).toMatchObject({ limit: 'tokens', scope: 'task' });
+    expect(result.usage?.totalTokens).toBe(720);
+
+    // Wrap-up calls still see the tools but may not call them
+    const workerWrapUp = workerScript.calls[2];
+    expect(workerWrapUp.tools?.map(tool => tool.name)).toEqual(['lookup']);
+    expect(workerWrapUp.options?.toolChoice).toBe('none');
+    expect(workerWrapUp.messages[workerWrapUp.messages.length - 1].content).toContain(
+      'budget is nearly used up'
+    );
+    expect(manager.calls[1].options?.toolChoice).toBe('none');
+  });
+
+  it('counts the spending of workers running at the same time against the task budget', async () => {
+    // Each worker looks things up until asked to wrap up
+    const researcher = (name: string) => {
+      const script = new ProviderScript(
+        Array.from({ length: 6 }, () => ({
+          response: (_messages: unknown, _tools: unknown, options?: { toolChoice?: unknown }) =>
+            options?.toolChoice === 'none'
+              ? { content: `${name} findings`, usage: usage(10) }
+              : { toolCalls: [{ name: 'lookup', arguments: {} }], usage: usage(150) },
+        }))
+      );
+      return {
+        script,
+        config: worker(name, script, {
+          tools: [lookupTool],
+          toolImplementations: { lookup: () => delay(5).then(() => 'found') },
+        }),
+      };
+    };
+    const first = researcher('first');
+    const second = researcher('second');
+    const { office } = createOffice(
+      [
+        {
+          response: {
+            toolCalls: [call('first', 'research'), call('second', 'research')],
+            usage: usage(100),
+          },
+        },
+        { response: { content: 'best effort answer', usage: usage(10) } },
+      ],
+      [first.config, second.config]
+    );
+
+    const result = await office.executeTask({
+      title: 'Research',
+      description: 'Find out',
+      budget: { maxTokens: 1000 },
+    });
+
+    // Alone, each worker would only have wrapped up after spending 750 tokens of its own
+    expect(result.content).toBe('best effort answer');
+    expect(result.usage?.totalTokens).toBeLessThanOrEqual(1000);
+    expect(first.script.calls.length + second.script.calls.length).toBeLessThanOrEqual(7);
+  });
+
+  it('counts the spending inside a sub-office against the task budget', async () => {
+    const researcherScript = new ProviderScript(
+      Array.from({ length: 6 }, () => ({
+        response: (_messages: unknown, _tools: unknown, options?: { toolChoice?: unknown }) =>
+          options?.toolChoice === 'none'
+            ? { content: 'findings', usage: usage(10) }
+            : { toolCalls: [{ name: 'lookup', arguments: {} }], usage: usage(200) },
+      }))
+    );
+    const leadScript = new ProviderScript([
+      { response: { toolCalls: [call('researcher', 'dig')], usage: usage(50) } },
+      { response: { content: 'lead summary', usage: usage(10) } },
+    ]);
+    const { office } = createOffice(
+      [
+        { response: { toolCalls: [call('research', 'study')], usage: usage(50) } },
+        { response: { content: 'best effort answer', usage: usage(10) } },
+      ],
+      [
+        {
+          name: 'research',
+          manager: {
+            name: 'lead',
+            description: 'Leads the research',
+            systemPrompt: 'You lead researchers',
+            provider: scripted(leadScript),
+          },
+          workers: [
+            worker('researcher', researcherScript, {
+              tools: [lookupTool],
+              toolImplementations: { lookup: async () => 'found' },
+            }),
+          ],
+        },
+      ]
+    );
+
+    const result = await office.executeTask({
+      title: 'Research',
+      description: 'Find out',
+      budget: { maxTokens: 1000 },
+    });
+
+    // The researcher wraps up once the managers' and its own spending near the limit
+    expect(result.content).toBe('best effort answer');
+    expect(result.usage?.totalTokens).toBe(50 + 50 + 4 * 200 + 10 + 10 + 10);
+    expect(researcherScript.calls[4].options?.toolChoice).toBe('none');
+  });
+
+  it('stops on cancellation and keeps the worker history valid for the next run', async () => {
+    const workerScript = new ProviderScript([
+      {
+        response: {
+          content: 'working on it',
+          toolCalls: [
+            { name: 'wait', arguments: { ms: 5 } },
+            { name: 'wait', arguments: { ms: 5000 } },
+          ],
+        },
+      },
+      { response: { content: 'second task done' } },
+    ]);
+    const { office } = createOffice(
+      [],
+      [
+        worker('waiter', workerScript, {
+          tools: [
+            {
+              name: 'wait',
+              description: 'Wait',
+              parameters: z.object({ ms: z.number() }),
+              parallel: true,
+            },
+          ],
+          toolImplementations: {
+            wait: async ({ ms }, { signal }) => delay(ms, signal).then(() => 'waited'),
+          },
+        }),
+      ]
+    );
+
+    const cancelled = await office.callWorker('waiter', { task: 'first' }, undefined, {
+      timeoutMs: 100,
+    });
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.content).toBe('working on it');
+    expect(cancelled.error).toContain('timed out after 100ms');
+
+    const next = await office.callWorker('waiter', { task: 'second' });
+    expect(next.content).toBe('second task done');
+    expectToolCallsAnswered(workerScript.calls[1].messages);
+  });
+
+  it('passes the signal to providers and tools and returns the partial output when aborted', async () => {
+    const controller = new AbortController();
+    const toolSignals: Array<AbortSignal | undefined> = [];
+    const workerScript = new ProviderScript([
+      { response: { content: 'checking', toolCalls: [{ name: 'lookup', arguments: {} }] } },
+    ]);
+    const { office, manager } = createOffice(
+      [
+        {
+          response: {
+            content: 'Asking the researcher',
+            toolCalls: [call('researcher', 'research')],
+          },
+        },
+      ],
+      [
+        worker('researcher', workerScript, {
+          tools: [lookupTool],
+          toolImplementations: {
+            lookup: async (_params, { signal }) => {
+              toolSignals.push(signal);
+              controller.abort(new Error('user closed the tab'));
+              return 'found';
+            },
+          },
+        }),
+      ]
+    );
+
+    const result = await office.executeTask(
+      { title: 'Research', description: 'Find out' },
+      { signal: controller.signal }
+    );
+
+    expect(result.status).toBe('cancelled');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('user closed the tab');
+    expect(result.content).toBe('Asking the researcher');
+    expect(manager.calls[0].options?.signal).toBe(controller.signal);
+    expect(workerScript.calls[0].options?.signal).toBe(controller.signal);
+    expect(toolSignals[0]?.aborted).toBe(true);
+    expect(manager.calls).toHaveLength(1);
+  });
+
+  it('offers worker input schemas to the manager and validates the arguments', async () => {
+    const analystScript = new ProviderScript([{ response: { content: 'ACME grew 4%' } }]);
+    const { office, manager } = createOffice(
+      [
+        {
+          response: {
+            toolCalls: [
+              { name: 'analyst', arguments: { ticker: 'ACME', period: 'Q3' } },
+              { name: 'analyst', arguments: { ticker: 'ACME', period: 'Q5' } },
+            ],
+          },
+        },
+        { response: { content: 'Done' } },
+      ],
+      [
+        worker('analyst', analystScript, {
+          inputSchema: z.object({ ticker: z.string(), period: z.enum(['Q1', 'Q2', 'Q3', 'Q4']) }),
+          promptTemplate: 'Analyse {{ticker}} for {{period}}',
+        }),
+      ]
+    );
+
+    await office.executeTask({ title: 'Analyse', description: 'How did ACME do?' });
+
+    const tool = manager.calls[0].tools?.find(candidate => candidate.name === 'analyst');
+    expect(Object.keys((tool?.parameters as z.ZodObject<any>).shape)).toEqual(['ticker', 'period']);
+    expect(analystScript.calls).toHaveLength(1);
+    expect(analystScript.calls[0].messages[1].content).toBe('Analyse ACME for Q3');
+
+    const results = manager.calls[1].messages.filter(message => message.role === 'tool');
+    expect(results[0].content).toBe('ACME grew 4%');
+    expect(results[1].content).toContain("Error: Invalid input for worker 'analyst'");
+    expect(results[1].content).toContain('period');
+  });
+
+  it('runs parallel-safe tool calls together up to the cap and side-effecting ones alone', async () => {
+    let active = 0;
+    const seen: Array<{ name: string; active: number }> = [];
+    const track = (name: string, ms: number) => async () => {
+      seen.push({ name, active: ++active });
+      await delay(ms);
+      active--;
+      return `${name} done`;
+    };
+    const fetchCall = (url: string) => ({ name: 'fetch', arguments: { url } });
+    const workerScript = new ProviderScript([
+      {
+        response: {
+          toolCalls: [
+            fetchCall('a'),
+            fetchCall('b'),
+            fetchCall('c'),
+            { name: 'save', arguments: {} },
+            fetchCall('d'),
+            { name: 'hang', arguments: {} },
+          ],
+        },
+      },
+      { response: { content: 'collected' } },
+    ]);
+    const { office } = createOffice(
+      [],
+      [
+        worker('collector', workerScript, {
+          tools: [
+            {
+              name: 'fetch',
+              description: 'Fetch a URL',
+              parameters: z.object({ url: z.string() }),
+              parallel: true,
+            },
+            { name: 'save', description: 'Save the results', parameters: z.object({}) },
+            { ...lookupTool, name: 'hang', parallel: true, timeoutMs: 20 },
+          ],
+          toolImplementations: {
+            fetch: track('fetch', 10),
+            save: track('save', 1),
+            hang: () => new Promise(() => {}),
+          },
+          maxConcurrentTools: 2,
+        }),
+      ]
+    );
+
+    const result = await office.callWorker('collector', { task: 'collect' });
+
+    expect(result.content).toBe('collected');
+    expect(Math.max(...seen.map(call => call.active))).toBe(2);
+    expect(seen.find(call => call.name === 'save')?.active).toBe(1);
+    expect(
+      workerScript.calls[1].messages.filter(message => message.role === 'tool').map(m => m.content)
+    ).toEqual([
+      'fetch done',
+      'fetch done',
+      'fetch done',
+      'save done',
+      'fetch done',
+      'Error executing tool "hang": Execution timed out after 20ms',
+    ]);
+  });
+
+  it('runs a sub-office as a single worker with nested events and usage', async () => {
+    const leadScript = new ProviderScript([
+      { response: { toolCalls: [call('researcher', 'dig')], usage: usage(20) } },
+      { response: { content: 'lead summary', usage: usage(20) } },
+    ]);
+    const researcherScript = new ProviderScript([
+      { response: { content: 'raw findings', usage: usage(40) } },
+    ]);
+    const research = {
+      name: 'research',
+      description: 'Research team',
+      manager: {
+        name: 'lead',
+        description: 'Leads the research',
+        systemPrompt: 'You lead researchers',
+        provider: scripted(leadScript),
+      },
+      workers: [worker('researcher', researcherScript)],
+    };
+    const { office, manager } = createOffice(
+      [
+        { response: { toolCalls: [call('research', 'study the market')], usage: usage(10) } },
+        { response: { content: 'final report', usage: usage(10) } },
+      ],
+      [research]
+    );
+
+    const events: TaskStreamEvent[] = [];
+    for await (const event of office.executeTaskStream({ title: 'Report', description: 'Write' })) {
+      events.push(event);
+    }
+
+    expect(manager.calls[0].tools?.map(tool => tool.name)).toEqual(['research']);
+    expect(leadScript.calls[0].messages[1].content).toContain('study the market');
+    expect(
+      events
+        .filter(event => event.type === 'worker_finished')
+        .map(event => [event.office, event.type === 'worker_finished' && event.workerName])
+    ).toEqual([
+      [['research'], 'researcher'],
+      [undefined, 'research'],
+    ]);
+
+    const result = events[events.length - 1];
+    expect(result.type === 'result' && result.result).toMatchObject({
+      content: 'final report',
+      usage: { totalTokens: 100 },
+    });
+
+    // Every level of managers counts toward the depth limit
+    expect(
+      () =>
+        new OfficeLLM({
+          manager: { ...research.manager, name: 'manager' },
+          workers: [research],
+          maxDepth: 1,
+        })
+    ).toThrow("sub-office 'research' exceeds the maximum depth of 1 managers");
+  });
+
+  it('checks at construction that agents needing tools are on models that can call them', () => {
+    const warn = jest.spyOn(logger, 'warn');
+    const config = (capabilityCheck?: 'warn' | 'error' | 'off') => ({
+      manager: {
+        name: 'manager',
+        description: 'Coordinates the team',
+        systemPrompt: 'You manage workers',
+        provider: scripted(new ProviderScript([])),
+      },
+      workers: [
+        worker('searcher', new ProviderScript([]), {
+          provider: { ...scripted(new ProviderScript([])), model: 'claude-2.1' },
+          tools: [lookupTool],
+        }),
+      ],
+      capabilityCheck,
+    });
+
+    expect(() => new OfficeLLM(config('error'))).toThrow(
+      "Worker 'searcher' needs tool calling, which model claude-2.1 (scripted) does not support"
+    );
+
+    new OfficeLLM(config());
+    expect(warn).toHaveBeenCalledWith('OFFICELLM', expect.stringContaining('claude-2.1'));
+
+    warn.mockClear();
+    new OfficeLLM(config('off'));
+    expect(warn).not.toHaveBeenCalledWith('OFFICELLM', expect.stringContaining('claude-2.1'));
+    warn.mockRestore();
+  });
+
+  it('refuses delegations that would loop back to a worker already in the chain', async () => {
+    const writerScript = new ProviderScript([
+      {
+        response: {
+          toolCalls: [
+            { name: 'delegate_to_editor', arguments: { task: 'edit', context: '', metadata: {} } },
+          ],
+        },
+      },
+      {
+        response: messages => ({ content: `writer got: ${messages[messages.length - 1].content}` }),
+      },
+    ]);
+    const editorScript = new ProviderScript([
+      {
+        response: {
+          toolCalls: [
+            {
+              name: 'delegate_to_writer',
+              arguments: { task: 'rewrite', context: '', metadata: {} },
+            },
+          ],
+        },
+      },
+      {
+        response: messages => ({ content: `editor got: ${messages[messages.length - 1].content}` }),
+      },
+    ]);
+    const { office } = createOffice(
+      [
+        { response: { toolCalls: [call('writer', 'write')] } },
+        { response: messages => ({ content: messages[messages.length - 1].content }) },
+      ],
+      [
+        worker('writer', writerScript, { delegation: { workers: ['editor'] } }),
+        worker('editor', editorScript, { delegation: { workers: ['writer'] } }),
+      ]
+    );
+
+    const events: TaskStreamEvent[] = [];
+    let result;
+    for await (const event of office.executeTaskStream({
+      title: 'Article',
+      description: 'Write it',
+    })) {
+      events.push(event);
+      if (event.type === 'result') result = event.result;
+    }
+
+    expect(result!.content).toBe(
+      'writer got: editor got: Error: Delegation cycle: writer > editor > writer'
+    );
+    expect(result!.delegations).toEqual([
+      {
+        from: 'writer',
+        to: 'editor',
+        type: 'delegate',
+        chain: ['writer', 'editor'],
+        success: true,
+      },
+    ]);
+    expect(
+      events.flatMap(event => (event.type === 'worker_started' ? [event.workerName] : []))
+    ).toEqual(['writer', 'editor']);
+    writerScript.assertConsumed();
+    editorScript.assertConsumed();
+  });
+
+  it('hands the task off to a peer whose answer becomes the worker result', async () => {
+    const writerScript = new ProviderScript([
+      {
+        response: {
+          toolCalls: [
+            { name: 'lookup', arguments: {} },
+            {
+              name: 'handoff_to_editor',
+              arguments: { task: 'finish it', context: '', metadata: {} },
+            },
+          ],
+          usage: usage(10),
+        },
+      },
+      { response: { content: 'written by the writer' } },
+    ]);
+    const editorScript = new ProviderScript([
+      { response: { content: 'edited article', usage: usage(30) } },
+    ]);
+    const { office, manager } = createOffice(
+      [
+        { response: { toolCalls: [call('writer', 'write')] } },
+        { response: messages => ({ content: messages[messages.length - 1].content }) },
+      ],
+      [
+        worker('writer', writerScript, {
+          tools: [lookupTool],
+          toolImplementations: { lookup: async () => 'found' },
+          delegation: { workers: ['editor'], handoff: true },
+        }),
+        worker('editor', editorScript),
+      ]
+    );
+
+    const result = await office.executeTask({ title: 'Article', description: 'Write it' });
+
+    expect(result.content).toBe('edited article');
+    expect(result.usage?.totalTokens).toBe(40);
+    expect(result.delegations).toEqual([
+      { from: 'writer', to: 'editor', type: 'handoff', chain: ['writer', 'editor'], success: true },
+    ]);
+    expect(writerScript.calls[0].tools?.map(tool => tool.name)).toEqual([
+      'lookup',
+      'delegate_to_editor',
+      'handoff_to_editor',
+    ]);
+    expect(manager.calls[1].messages[manager.calls[1].messages.length - 1].content).toBe(
+      'edited article'
+    );
+
+    // The other calls in the handing-off response are skipped, so the history stays valid
+    const next = await office.callWorker('writer', { task: 'again' });
+    expect(next.content).toBe('written by the writer');
+    expectToolCallsAnswered(writerScript.calls[1].messages);
+    expect(writerScript.calls[1].messages).toContainEqual(
+      expect.objectContaining({ content: 'Skipped: the task was handed off to editor' })
+    );
+  });
+});
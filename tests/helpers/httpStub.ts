@@ -0,0 +1,106 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Request received by the stub, with its JSON body parsed
+ */
+export interface StubRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * Response the stub sends; a string body is sent as-is (e.g. server-sent events)
+ */
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Local HTTP server standing in for a provider API
+ *
+ * Replies to requests with queued responses in order and records every request, so
+ * tests can check the exact wire format a provider sends.
+ */
+export class HttpStub {
+  public readonly requests: StubRequest[] = [];
+  private responses: StubResponse[] = [];
+  private server: Server;
+
+  private constructor() {
+    this.server = createServer((request, response) => {
+      let raw = '';
+      request.on('data', chunk => (raw += chunk));
+      request.on('end', () => {
+        this.requests.push({
+          method: request.method ?? 'GET',
+          path: request.url ?? '/',
+          headers: request.headers,
+          body: raw ? JSON.parse(raw) : undefined,
+        });
+
+        const reply = this.responses.shift() ?? {
+          status: 500,
+          body: { error: { message: 'No stub response queued' } },
+        };
+        const isText = typeof reply.body === 'string';
+        response.writeHead(reply.status ?? 200, {
+          'content-type': isText ? 'text/event-stream' : 'application/json',
+          ...reply.headers,
+        });
+        response.end(isText ? reply.body : JSON.stringify(reply.body));
+      });
+    });
+  }
+
+  /**
+   * Start a stub on a free port on 127.0.0.1
+   */
+  static async start(): Promise<HttpStub> {
+    const stub = new HttpStub();
+    await new Promise<void>(resolve => stub.server.listen(0, '127.0.0.1', resolve));
+    return stub;
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Queue responses for the next requests
+   */
+  reply(...responses: StubResponse[]): void {
+    this.responses.push(...responses);
+  }
+
+  /**
+   * Forget recorded requests and queued responses
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.responses = [];
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      this.server.close(error => (error ? reject(error) : resolve()))
+    );
+  }
+}
+
+/**
+ * Encode events as a server-sent event stream body
+ */
+export function sse(events: Array<{ event?: string; data: unknown }>): string {
+  return events
+    .map(
+      ({ event, data }) =>
+        `${event ? `event: ${event}\n` : ''}data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`
+    )
+    .join('');
+}
@@ -0,0 +1,407 @@
+import { z } from 'zod';
+import {
+  AnthropicProvider,
+  ProviderMessage,
+  ProviderStreamChunk,
+  ToolDefinition,
+  logger,
+  LogLevel,
+} from '../../src';
+import { HttpStub, sse } from '../helpers/httpStub';
+
+const lookup: ToolDefinition = {
+  name: 'lookup',
+  description: 'Look something up',
+  parameters: z.object({ q: z.string() }),
+};
+
+const message = (
+  content: unknown[],
+  stopReason = 'end_turn',
+  usage: Record<string, number> = { input_tokens: 10, output_tokens: 5 }
+) => ({
+  id: 'msg_1',
+  type: 'message',
+  role: 'assistant',
+  model: 'claude-sonnet-4-5',
+  content,
+  stop_reason: stopReason,
+  stop_sequence: null,
+  usage,
+});
+
+describe('AnthropicProvider', () => {
+  let stub: HttpStub;
+  let provider: AnthropicProvider;
+
+  beforeAll(async () => {
+    logger.setLevel(LogLevel.NONE);
+    stub = await HttpStub.start();
+    provider = new AnthropicProvider({
+      type: 'anthropic',
+      apiKey: 'test-key',
+      model: 'claude-sonnet-4-5',
+      baseURL: stub.url,
+      retry: { initialDelayMs: 1, jitter: false },
+    });
+  });
+
+  afterEach(() => stub.reset());
+
+  afterAll(async () => {
+    await stub.close();
+    logger.setLevel(LogLevel.INFO);
+  });
+
+  it('converts messages, attachments, tool calls and tool results to the Messages API format', async () => {
+    stub.reply({ body: message([{ type: 'text', text: 'Done' }]) });
+
+    const messages: ProviderMessage[] = [
+      { role: 'system', content: 'Be brief' },
+      {
+        role: 'user',
+        content: 'Look at this',
+        parts: [
+          {
+            type: 'image',
+            source: { type: 'base64', mediaType: 'image/png', data: 'iVBORw0KGgo=' },
+          },
+        ],
+      },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'toolu_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"a"}' } },
+          { id: 'toolu_2', type: 'function', function: { name: 'lookup', arguments: '{"q":"b"}' } },
+        ],
+      },
+      { role: 'tool', content: 'A', toolCallId: 'toolu_1' },
+      { role: 'tool', content: 'B', toolCallId: 'toolu_2' },
+      { role: 'user', content: 'Thanks' },
+    ];
+    await provider.chat(messages, [lookup]);
+
+    const [request] = stub.requests;
+    expect(request.path).toBe('/v1/messages');
+    expect(request.headers['x-api-key']).toBe('test-key');
+    expect(request.body).toMatchObject({
+      model: 'claude-sonnet-4-5',
+      max_tokens: 4096,
+      system: 'Be brief',
+    });
+    expect(request.body.messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Look at this' },
+          {
+            type: 'image',
+            source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' },
+          },
+        ],
+      },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: { q: 'a' } },
+          { type: 'tool_use', id: 'toolu_2', name: 'lookup', input: { q: 'b' } },
+        ],
+      },
+      {
+        // Tool results and the following user message share one user turn
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_1', content: 'A' },
+          { type: 'tool_result', tool_use_id: 'toolu_2', content: 'B' },
+          { type: 'text', text: 'Thanks' },
+        ],
+      },
+    ]);
+    expect(request.body.tools).toEqual([
+      expect.objectContaining({
+        name: 'lookup',
+        description: 'Look something up',
+        input_schema: expect.objectContaining({ type: 'object' }),
+      }),
+    ]);
+    expect(request.body.tool_choice).toBeUndefined();
+  });
+
+  it('converts text, tool use blocks and usage from the response', async () => {
+    stub.reply({
+      body: message(
+        [
+          { type: 'text', text: 'Checking' },
+          { type: 'tool_use', id: 'toolu_3', name: 'lookup', input: { q: 'c' } },
+        ],
+        'tool_use',
+        { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 3 }
+      ),
+    });
+
+    const response = await provider.chat([{ role: 'user', content: 'Find c' }], [lookup]);
+
+    expect(response).toMatchObject({
+      content: 'Checking',
+      toolCalls: [
+        { id: 'toolu_3', type: 'function', function: { name: 'lookup', arguments: '{"q":"c"}' } },
+      ],
+      usage: { promptTokens: 13, completionTokens: 5, totalTokens: 18, cachedTokens: 3 },
+      finishReason: 'tool_calls',
+      retries: 0,
+    });
+  });
+
+  it('requests structured output as a forced tool call', async () => {
+    stub.reply({
+      body: message(
+        [{ type: 'tool_use', id: 'toolu_4', name: 'final_answer', input: { answer: 4 } }],
+        'tool_use'
+      ),
+    });
+
+    const response = await provider.chat([{ role: 'user', content: '2 + 2?' }], undefined, {
+      responseFormat: {
+        type: 'json_schema',
+        name: 'final_answer',
+        schema: {
+          type: 'object',
+          properties: { answer: { type: 'number' } },
+          required: ['answer'],
+        },
+      },
+    });
+
+    expect(stub.requests[0].body.tool_choice).toEqual({ type: 'tool', name: 'final_answer' });
+    expect(response.content).toBe('{"answer":4}');
+    expect(response.toolCalls).toBeUndefined();
+  });
+
+  it('sends the tools with tool_choice none when tool calls are not allowed', async () => {
+    stub.reply({ body: message([{ type: 'text', text: 'Final answer' }]) });
+
+    await provider.chat([{ role: 'user', content: 'Wrap up' }], [lookup], { toolChoice: 'none' });
+
+    expect(stub.requests[0].body.tools).toHaveLength(1);
+    expect(stub.requests[0].body.tool_choice).toEqual({ type: 'none' });
+  });
+
+  it('sends PDF and text files as document blocks and rejects other file types', async () => {
+    stub.reply({ body: message([{ type: 'text', text: 'Read' }]) });
+
+    await provider.chat([
+      {
+        role: 'user',
+        content: 'Summarize these',
+        parts: [
+          {
+            type: 'file',
+            name: 'report.pdf',
+            source: { type: 'base64', mediaType: 'application/pdf', data: 'JVBERi0=' },
+          },
+          {
+            type: 'file',
+            name: 'notes.txt',
+            source: { type: 'base64', mediaType: 'text/plain', data: 'aGVsbG8=' },
+          },
+        ],
+      },
+    ]);
+
+    expect(stub.requests[0].body.messages[0].content).toEqual([
+      { type: 'text', text: 'Summarize these' },
+      {
+        type: 'document',
+        source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0=' },
+        title: 'report.pdf',
+      },
+      {
+        type: 'document',
+        source: { type: 'text', media_type: 'text/plain', data: 'hello' },
+        title: 'notes.txt',
+      },
+    ]);
+
+    const spreadsheet: ProviderMessage = {
+      role: 'user',
+      content: 'And this',
+      parts: [
+        {
+          type: 'file',
+          source: { type: 'base64', mediaType: 'application/vnd.ms-excel', data: 'AAAA' },
+        },
+      ],
+    };
+    await expect(provider.chat([spreadsheet])).rejects.toThrow(
+      'Anthropic does not support application/vnd.ms-excel files'
+    );
+  });
+
+  it('retries overloaded responses', async () => {
+    stub.reply(
+      {
+        status: 529,
+        body: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+      },
+      { body: message([{ type: 'text', text: 'Recovered' }]) }
+    );
+
+    const response = await provider.chat([{ role: 'user', content: 'Hi' }]);
+
+    expect(response.content).toBe('Recovered');
+    expect(response.retries).toBe(1);
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  it('streams text and tool calls', async () => {
+    stub.reply({
+      body: sse([
+        {
+          event: 'message_start',
+          data: {
+            type: 'message_start',
+            message: message([], null as any, { input_tokens: 10, output_tokens: 0 }),
+          },
+        },
+        {
+          event: 'content_block_start',
+          data: {
+            type: 'content_block_start',
+            index: 0,
+            content_block: { type: 'text', text: '' },
+          },
+        },
+        {
+          event: 'content_block_delta',
+          data: {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'text_delta', text: 'Let me ' },
+          },
+        },
+        {
+          event: 'content_block_delta',
+          data: {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'text_delta', text: 'check' },
+          },
+        },
+        { event: 'content_block_stop', data: { type: 'content_block_stop', index: 0 } },
+        {
+          event: 'content_block_start',
+          data: {
+            type: 'content_block_start',
+            index: 1,
+            content_block: { type: 'tool_use', id: 'toolu_5', name: 'lookup', input: {} },
+          },
+        },
+        {
+          event: 'content_block_delta',
+          data: {
+            type: 'content_block_delta',
+            index: 1,
+            delta: { type: 'input_json_delta', partial_json: '{"q":' },
+          },
+        },
+        {
+          event: 'content_block_delta',
+          data: {
+            type: 'content_block_delta',
+            index: 1,
+            delta: { type: 'input_json_delta', partial_json: '"d"}' },
+          },
+        },
+        { event: 'content_block_stop', data: { type: 'content_block_stop', index: 1 } },
+        {
+          event: 'message_delta',
+          data: {
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use', stop_sequence: null },
+            usage: { output_tokens: 7 },
+          },
+        },
+        { event: 'message_stop', data: { type: 'message_stop' } },
+      ]),
+    });
+
+    const chunks: ProviderStreamChunk[] = [];
+    for await (const chunk of provider.chatStream(
+      [{ role: 'user', content: 'Find d' }],
+      [lookup]
+    )) {
+      chunks.push(chunk);
+    }
+
+    expect(stub.requests[0].body.stream).toBe(true);
+    expect(
+      chunks.filter(chunk => chunk.type === 'text').map(chunk => (chunk as { delta: string }).delta)
+    ).toEqual(['Let me ', 'check']);
+    const done = chunks[chunks.length - 1];
+    expect(done.type).toBe('done');
+    expect(done.type === 'done' && done.response).toMatchObject({
+      content: 'Let me check',
+      toolCalls: [{ id: 'toolu_5', function: { name: 'lookup', arguments: '{"q":"d"}' } }],
+      usage: { promptTokens: 10, completionTokens: 7, totalTokens: 17 },
+      finishReason: 'tool_calls',
+    });
+  });
+
+  it('captures thinking and sends the signed blocks back with the tool results', async () => {
+    const thinker = new AnthropicProvider({
+      type: 'anthropic',
+      apiKey: 'test-key',
+      model: 'claude-sonnet-4-5',
+      baseURL: stub.url,
+      temperature: 0.2,
+      reasoning: { budgetTokens: 2048 },
+    });
+    stub.reply({
+      body: message(
+        [
+          { type: 'thinking', thinking: 'Need to look up a', signature: 'sig-1' },
+          { type: 'redacted_thinking', data: 'opaque' },
+          { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: { q: 'a' } },
+        ],
+        'tool_use'
+      ),
+    });
+    stub.reply({ body: message([{ type: 'text', text: 'A it is' }]) });
+
+    const question: ProviderMessage[] = [{ role: 'user', content: 'What is a?' }];
+    const first = await thinker.chat(question, [lookup]);
+    expect(first.reasoning).toBe('Need to look up a');
+    expect(first.thinkingBlocks).toEqual([
+      { type: 'thinking', thinking: 'Need to look up a', signature: 'sig-1' },
+      { type: 'redacted_thinking', data: 'opaque' },
+    ]);
+
+    await thinker.chat(
+      [
+        ...question,
+        {
+          role: 'assistant',
+          content: first.content,
+          toolCalls: first.toolCalls,
+          thinkingBlocks: first.thinkingBlocks,
+        },
+        { role: 'tool', content: 'A', toolCallId: 'toolu_1' },
+      ],
+      [lookup]
+    );
+
+    const [request, followUp] = stub.requests;
+    expect(request.body).toMatchObject({
+      thinking: { type: 'enabled', budget_tokens: 2048 },
+      max_tokens: 2048 + 4096,
+    });
+    expect(request.body.temperature).toBeUndefined();
+    expect(followUp.body.messages[1].content.map((block: { type: string }) => block.type)).toEqual([
+      'thinking',
+      'redacted_thinking',
+      'tool_use',
+    ]);
+    expect(followUp.body.messages[1].content[0].signature).toBe('sig-1');
+  });
+});
@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import {
+  CachingProvider,
+  LRUCache,
+  ProviderMessage,
+  ProviderScript,
+  ScriptedConfig,
+  ScriptedProvider,
+  logger,
+  LogLevel,
+} from '../../src';
+
+const lookup = {
+  name: 'lookup',
+  description: 'Look something up',
+  parameters: z.object({ q: z.string() }),
+};
+
+const hi: ProviderMessage[] = [{ role: 'user', content: 'Hi' }];
+
+/**
+ * Caching provider over a scripted one that answers every call with its call number
+ */
+function createCached(config: Partial<ScriptedConfig> = {}, cache = new LRUCache({ type: 'lru' })) {
+  const script = new ProviderScript(
+    Array.from({ length: 10 }, (_, index) => ({ response: { content: `answer ${index + 1}` } }))
+  );
+  const provider = new CachingProvider(
+    new ScriptedProvider({ type: 'scripted', apiKey: '', model: 'scripted', script, ...config }),
+    { backend: cache }
+  );
+  return { provider, script, cache };
+}
+
+describe('CachingProvider', () => {
+  beforeAll(() => logger.setLevel(LogLevel.NONE));
+  afterAll(() => logger.setLevel(LogLevel.INFO));
+
+  it('serves identical requests from the cache', async () => {
+    const { provider, script } = createCached();
+
+    const first = await provider.chat(hi, [lookup]);
+    const second = await provider.chat(hi, [lookup]);
+
+    expect(first.content).toBe('answer 1');
+    expect(first.cached).toBeUndefined();
+    expect(second).toMatchObject({ content: 'answer 1', cached: true, retries: 0 });
+    expect(script.calls).toHaveLength(1);
+  });
+
+  it('calls the provider when messages, tools or options differ', async () => {
+    const { provider, script } = createCached();
+
+    await provider.chat(hi);
+    await provider.chat([{ role: 'user', content: 'Hello' }]);
+    await provider.chat(hi, [lookup]);
+    await provider.chat(hi, [lookup], { toolChoice: 'none' });
+    await provider.chat(hi, undefined, {
+      responseFormat: { type: 'json_schema', name: 'answer', schema: { type: 'object' } },
+    });
+
+    expect(script.calls).toHaveLength(5);
+  });
+
+  it('calls the provider when earlier answers carry different thinking blocks', async () => {
+    const { provider, script } = createCached();
+    const answered = (signature: string): ProviderMessage[] => [
+      ...hi,
+      {
+        role: 'assistant',
+        content: 'Hello',
+        thinkingBlocks: [{ type: 'thinking', thinking: 'Greet back', signature }],
+      },
+      { role: 'user', content: 'How are you?' },
+    ];
+
+    await provider.chat(answered('sig-1'));
+    await provider.chat(answered('sig-2'));
+    await provider.chat(answered('sig-1'));
+
+    expect(script.calls).toHaveLength(2);
+  });
+
+  it('keys responses by model and sampling settings', async () => {
+    const cache = new LRUCache({ type: 'lru' });
+    await createCached({ temperature: 0 }, cache).provider.chat(hi);
+
+    const same = createCached({ temperature: 0 }, cache);
+    expect((await same.provider.chat(hi)).cached).toBe(true);
+
+    const warmer = createCached({ temperature: 1 }, cache);
+    expect((await warmer.provider.chat(hi)).cached).toBeUndefined();
+
+    const otherModel = createCached({ model: 'other', temperature: 0 }, cache);
+    expect((await otherModel.provider.chat(hi)).cached).toBeUndefined();
+  });
+
+  it('streams cached responses as a single chunk', async () => {
+    const { provider } = createCached();
+    await provider.chat(hi);
+
+    const chunks = [];
+    for await (const chunk of provider.chatStream(hi)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([
+      { type: 'text', delta: 'answer 1' },
+      { type: 'done', response: expect.objectContaining({ content: 'answer 1', cached: true }) },
+    ]);
+  });
+
+  it('calls the provider when the cache fails', async () => {
+    const cache = new LRUCache({ type: 'lru' });
+    jest.spyOn(cache, 'get').mockRejectedValue(new Error('connection refused'));
+    const { provider } = createCached({}, cache);
+
+    expect((await provider.chat(hi)).content).toBe('answer 1');
+  });
+});
+
+describe('LRUCache', () => {
+  const response = (content: string) => ({ content, finishReason: 'stop' });
+
+  it('evicts the least recently used entry', async () => {
+    const cache = new LRUCache({ type: 'lru', maxEntries: 2 });
+    await cache.set('a', response('A'));
+    await cache.set('b', response('B'));
+    await cache.get('a');
+    await cache.set('c', response('C'));
+
+    expect(await cache.get('a')).toEqual(response('A'));
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).toEqual(response('C'));
+  });
+
+  it('expires entries after their time to live', async () => {
+    jest.useFakeTimers();
+    try {
+      const cache = new LRUCache({ type: 'lru', ttl: 60 });
+      await cache.set('a', response('A'));
+      await cache.set('b', response('B'), 1);
+
+      jest.advanceTimersByTime(2000);
+      expect(await cache.get('a')).toEqual(response('A'));
+      expect(await cache.get('b')).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import {
+  CassetteMismatchError,
+  CassetteProvider,
+  ProviderScript,
+  ScriptedProvider,
+  ScriptedTurn,
+  logger,
+  LogLevel,
+} from '../../src';
+
+const lookup = {
+  name: 'lookup',
+  description: 'Look something up',
+  parameters: z.object({ q: z.string() }),
+};
+
+const scripted = (turns: ScriptedTurn[]) =>
+  new ScriptedProvider({
+    type: 'scripted',
+    apiKey: '',
+    model: 'scripted',
+    script: new ProviderScript(turns),
+  });
+
+describe('CassetteProvider', () => {
+  let dir: string;
+
+  beforeAll(() => logger.setLevel(LogLevel.NONE));
+  beforeEach(() => (dir = mkdtempSync(join(tmpdir(), 'cassette-'))));
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+  afterAll(() => logger.setLevel(LogLevel.INFO));
+
+  it('records interactions and replays them without calling the provider', async () => {
+    const path = join(dir, 'worker.json');
+    const recorder = new CassetteProvider(
+      scripted([{ response: { content: 'recorded answer' } }]),
+      { path, mode: 'record' }
+    );
+    await recorder.chat([{ role: 'user', content: 'Hi' }], [lookup]);
+
+    const cassette = JSON.parse(readFileSync(path, 'utf8'));
+    expect(cassette.interactions).toHaveLength(1);
+    expect(cassette.interactions[0].request.tools).toEqual(['lookup']);
+
+    // The wrapped provider has no turns left, so any call to it would fail
+    const player = new CassetteProvider(scripted([]), { path, mode: 'replay' });
+    const response = await player.chat([{ role: 'user', content: 'Hi' }], [lookup]);
+    expect(response.content).toBe('recorded answer');
+    expect(player.remaining()).toBe(0);
+  });
+
+  it('fails when a replayed request differs from the recording', async () => {
+    const path = join(dir, 'worker.json');
+    await new CassetteProvider(scripted([{ response: { content: 'recorded answer' } }]), {
+      path,
+      mode: 'record',
+    }).chat([{ role: 'user', content: 'Hi' }], [lookup]);
+
+    const changedMessage = new CassetteProvider(scripted([]), { path });
+    await expect(
+      changedMessage.chat([{ role: 'user', content: 'Hello' }], [lookup])
+    ).rejects.toThrow('request differs at message 1');
+
+    const changedTools = new CassetteProvider(scripted([]), { path });
+    await expect(changedTools.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+      CassetteMismatchError
+    );
+
+    const unchecked = new CassetteProvider(scripted([]), { path, matchRequests: false });
+    expect((await unchecked.chat([{ role: 'user', content: 'Hello' }])).content).toBe(
+      'recorded answer'
+    );
+  });
+
+  it('records in auto mode until the cassette exists, then replays', async () => {
+    const path = join(dir, 'nested', 'worker.json');
+    const first = new CassetteProvider(scripted([{ response: { content: 'live' } }]), {
+      path,
+      mode: 'auto',
+    });
+    expect((await first.chat([{ role: 'user', content: 'Hi' }])).content).toBe('live');
+
+    const second = new CassetteProvider(scripted([]), { path, mode: 'auto' });
+    expect((await second.chat([{ role: 'user', content: 'Hi' }])).content).toBe('live');
+  });
+
+  it('reports a missing cassette in replay mode', async () => {
+    const player = new CassetteProvider(scripted([]), { path: join(dir, 'missing.json') });
+
+    await expect(player.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+      "Record it first with mode 'record'"
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  ChatOptions,
+  FallbackProvider,
+  IProvider,
+  ProviderStreamChunk,
+  ScriptedProvider,
+  ScriptedTurn,
+  logger,
+  LogLevel,
+} from '../../src';
+
+const scripted = (model: string, script: ScriptedTurn[]) =>
+  new ScriptedProvider({ type: 'scripted', apiKey: '', model, script });
+
+/**
+ * Provider whose calls wait for their signal, recording how they ended
+ */
+function hangingProvider(model: string): IProvider & { aborted: unknown[] } {
+  const aborted: unknown[] = [];
+  return {
+    type: 'scripted',
+    config: { type: 'scripted', apiKey: '', model },
+    aborted,
+    chat: (_messages, _tools, options?: ChatOptions) =>
+      new Promise((_, reject) =>
+        options?.signal?.addEventListener('abort', () => {
+          aborted.push(options.signal!.reason);
+          reject(options.signal!.reason);
+        })
+      ),
+    isAvailable: async () => true,
+    getSupportedModels: () => [model],
+  };
+}
+
+describe('FallbackProvider', () => {
+  beforeAll(() => logger.setLevel(LogLevel.NONE));
+  afterAll(() => logger.setLevel(LogLevel.INFO));
+
+  it('falls back to the next provider when one fails and reports which one answered', async () => {
+    const fallback = new FallbackProvider([
+      scripted('primary', [{ error: new Error('overloaded') }]),
+      scripted('secondary', [{ response: { content: 'from secondary' } }]),
+    ]);
+
+    const response = await fallback.chat([{ role: 'user', content: 'Hi' }]);
+
+    expect(response.content).toBe('from secondary');
+    expect(response.servedBy).toMatchObject({ type: 'scripted', model: 'secondary' });
+  });
+
+  it('rethrows provider errors when falling back on errors is disabled', async () => {
+    const fallback = new FallbackProvider(
+      [
+        scripted('primary', [{ error: new Error('overloaded') }]),
+        scripted('secondary', [{ response: { content: 'from secondary' } }]),
+      ],
+      { onError: false }
+    );
+
+    await expect(fallback.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow('overloaded');
+  });
+
+  it('aborts a request that exceeds the timeout before falling back', async () => {
+    const slow = hangingProvider('slow');
+    const fallback = new FallbackProvider(
+      [slow, scripted('fast', [{ response: { content: 'fast answer' } }])],
+      { timeoutMs: 20 }
+    );
+
+    const response = await fallback.chat([{ role: 'user', content: 'Hi' }]);
+
+    expect(response.content).toBe('fast answer');
+    expect(slow.aborted).toHaveLength(1);
+    expect(String(slow.aborted[0])).toContain('did not respond within 20ms');
+  });
+
+  it('reports every failure when the whole chain fails', async () => {
+    const fallback = new FallbackProvider([
+      scripted('primary', [{ error: new Error('overloaded') }]),
+      scripted('secondary', [{ error: new Error('unavailable') }]),
+    ]);
+
+    await expect(fallback.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+      'All providers in fallback chain failed (scripted/primary → scripted/secondary): unavailable'
+    );
+  });
+
+  it('closes the provider stream when the consumer stops reading early', async () => {
+    let closed = false;
+    const streaming: IProvider = {
+      type: 'scripted',
+      config: { type: 'scripted', apiKey: '', model: 'streaming' },
+      chat: async () => ({ content: '', finishReason: 'stop' }),
+      async *chatStream(): AsyncGenerator<ProviderStreamChunk> {
+        try {
+          yield { type: 'text', delta: 'one' };
+          yield { type: 'text', delta: 'two' };
+          yield { type: 'done', response: { content: 'onetwo', finishReason: 'stop' } };
+        } finally {
+          closed = true;
+        }
+      },
+      isAvailable: async () => true,
+      getSupportedModels: () => ['streaming'],
+    };
+    const fallback = new FallbackProvider([streaming]);
+
+    for await (const chunk of fallback.chatStream([{ role: 'user', content: 'Hi' }])) {
+      expect(chunk).toEqual({ type: 'text', delta: 'one' });
+      break;
+    }
+
+    expect(closed).toBe(true);
+  });
+});
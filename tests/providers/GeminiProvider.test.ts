@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { GeminiProvider, ProviderMessage, ToolDefinition, logger, LogLevel } from '../../src';
+
+const lookup: ToolDefinition = {
+  name: 'lookup',
+  description: 'Look something up',
+  parameters: z.object({ q: z.string() }),
+};
+
+const functionCallResponse = () =>
+  new Response(
+    JSON.stringify({
+      candidates: [
+        {
+          index: 0,
+          content: {
+            role: 'model',
+            parts: [{ functionCall: { name: 'lookup', args: { q: 'a' } } }],
+          },
+          finishReason: 'STOP',
+        },
+      ],
+      usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+    }),
+    { headers: { 'content-type': 'application/json' } }
+  );
+
+describe('GeminiProvider', () => {
+  let fetchMock: jest.SpyInstance;
+  const provider = new GeminiProvider({
+    type: 'gemini',
+    apiKey: 'test-key',
+    model: 'gemini-2.5-pro',
+  });
+
+  beforeAll(() => logger.setLevel(LogLevel.NONE));
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () => functionCallResponse());
+  });
+  afterEach(() => fetchMock.mockRestore());
+  afterAll(() => logger.setLevel(LogLevel.INFO));
+
+  it('derives stable tool call ids that differ when the same call is repeated later', async () => {
+    const question: ProviderMessage[] = [{ role: 'user', content: 'Look up a' }];
+
+    const first = await provider.chat(question, [lookup]);
+    const replayed = await provider.chat(question, [lookup]);
+    expect(first.toolCalls?.[0].id).toMatch(/^call_[0-9a-f]{24}$/);
+    expect(replayed.toolCalls?.[0].id).toBe(first.toolCalls?.[0].id);
+
+    const conversation: ProviderMessage[] = [
+      ...question,
+      { role: 'assistant', content: '', toolCalls: first.toolCalls },
+      { role: 'tool', content: 'nothing found', toolCallId: first.toolCalls![0].id },
+    ];
+    const repeated = await provider.chat(conversation, [lookup]);
+    expect(repeated.toolCalls?.[0].function).toEqual(first.toolCalls?.[0].function);
+    expect(repeated.toolCalls?.[0].id).not.toBe(first.toolCalls?.[0].id);
+  });
+
+  it('sends the system instruction and answers calls with ordered functionResponse parts', async () => {
+    await provider.chat(
+      [
+        { role: 'system', content: 'You research' },
+        { role: 'user', content: 'Look up a and b' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [
+            {
+              id: 'call_a',
+              type: 'function',
+              function: { name: 'lookup', arguments: '{"q":"a"}' },
+            },
+            {
+              id: 'call_b',
+              type: 'function',
+              function: { name: 'search', arguments: '{"q":"b"}' },
+            },
+          ],
+        },
+        { role: 'tool', content: '{"hits":2}', toolCallId: 'call_b' },
+        { role: 'tool', content: 'A', toolCallId: 'call_a' },
+      ],
+      [lookup]
+    );
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.systemInstruction).toMatchObject({ parts: [{ text: 'You research' }] });
+    expect(body.contents.map((content: { role: string }) => content.role)).toEqual([
+      'user',
+      'model',
+      'function',
+    ]);
+    expect(body.contents[2].parts).toEqual([
+      { functionResponse: { name: 'lookup', response: { result: 'A' } } },
+      { functionResponse: { name: 'search', response: { hits: 2 } } },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  createProviderChain,
+  ProviderMiddleware,
+  ProviderScript,
+  ScriptedConfig,
+  logger,
+  LogLevel,
+} from '../../src';
+
+const scripted = (script: ProviderScript, middleware?: ProviderMiddleware[]): ScriptedConfig => ({
+  type: 'scripted',
+  apiKey: '',
+  model: 'scripted',
+  script,
+  middleware,
+});
+
+describe('MiddlewareProvider', () => {
+  beforeAll(() => logger.setLevel(LogLevel.NONE));
+  afterAll(() => logger.setLevel(LogLevel.INFO));
+
+  it('runs shared middleware before the provider middleware, around the call', async () => {
+    const order: string[] = [];
+    const trace =
+      (name: string): ProviderMiddleware =>
+      async (request, next) => {
+        order.push(`${name} request`);
+        const response = await next(request);
+        order.push(`${name} response`);
+        return response;
+      };
+    const redact: ProviderMiddleware = (request, next) =>
+      next({
+        ...request,
+        messages: request.messages.map(message => ({
+          ...message,
+          content: message.content.replace(/sk-\w+/g, '[REDACTED]'),
+        })),
+      });
+    const tag: ProviderMiddleware = async (request, next) => {
+      const response = await next(request);
+      return { ...response, content: `${response.content} (${request.provider.config.model})` };
+    };
+
+    const script = new ProviderScript([{ response: { content: 'done' } }]);
+    const provider = createProviderChain(scripted(script, [trace('provider'), redact]), undefined, [
+      trace('shared'),
+      tag,
+    ]);
+    const response = await provider.chat([{ role: 'user', content: 'Use key sk-secret1' }]);
+
+    expect(order).toEqual([
+      'shared request',
+      'provider request',
+      'provider response',
+      'shared response',
+    ]);
+    expect(script.calls[0].messages[0].content).toBe('Use key [REDACTED]');
+    expect(response.content).toBe('done (scripted)');
+  });
+
+  it('short-circuits calls without reaching the provider', async () => {
+    const script = new ProviderScript([]);
+    const allowlist: ProviderMiddleware = async (request, next) =>
+      request.provider.config.model === 'scripted'
+        ? { content: 'model not allowed', finishReason: 'stop' }
+        : next(request);
+    const provider = createProviderChain(scripted(script, [allowlist]));
+
+    expect((await provider.chat([{ role: 'user', content: 'Hi' }])).content).toBe(
+      'model not allowed'
+    );
+    expect(script.calls).toHaveLength(0);
+  });
+
+  it('streams chunks as they arrive and ends with the response the middleware returns', async () => {
+    const script = new ProviderScript([{ response: { content: 'streamed answer' } }]);
+    const provider = createProviderChain(
+      scripted(script, [
+        async (request, next) => ({ ...(await next(request)), content: 'rewritten answer' }),
+      ])
+    );
+
+    const chunks = [];
+    for await (const chunk of provider.chatStream!([{ role: 'user', content: 'Hi' }])) {
+      chunks.push(chunk);
+    }
+
+    const text = chunks.flatMap(chunk => (chunk.type === 'text' ? [chunk.delta] : []));
+    expect(text.join('')).toBe('streamed answer');
+    expect(chunks[chunks.length - 1]).toMatchObject({
+      type: 'done',
+      response: { content: 'rewritten answer' },
+    });
+  });
+});
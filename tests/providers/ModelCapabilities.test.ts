@@ -0,0 +1,32 @@
+import {
+  getModelCapabilities,
+  getRegisteredModels,
+  ProviderFactory,
+  registerModelCapabilities,
+} from '../../src';
+
+describe('model capabilities', () => {
+  it('resolves snapshots and vendor prefixes to their model family', () => {
+    expect(getModelCapabilities('claude-sonnet-4-20250514')).toMatchObject({
+      provider: 'anthropic',
+      contextWindow: 200000,
+      toolCalling: true,
+    });
+    expect(getModelCapabilities('openai/gpt-4o')).toEqual(getModelCapabilities('gpt-4o'));
+    expect(getModelCapabilities('claude-2.1')?.toolCalling).toBe(false);
+    expect(getModelCapabilities('unknown-model')).toBeUndefined();
+  });
+
+  it('lists models per provider from the registry, including registered ones', () => {
+    registerModelCapabilities('acme-large', {
+      provider: 'openai',
+      contextWindow: 32000,
+      toolCalling: false,
+    });
+
+    expect(getModelCapabilities('acme-large-2025')).toMatchObject({ contextWindow: 32000 });
+    expect(getRegisteredModels('openai')).toEqual(expect.arrayContaining(['gpt-4o', 'acme-large']));
+    expect(ProviderFactory.getSupportedModels('anthropic')).toContain('claude-sonnet-4');
+    expect(ProviderFactory.getSupportedModels('anthropic')).not.toContain('gpt-4o');
+  });
+});
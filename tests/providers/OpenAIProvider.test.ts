@@ -0,0 +1,285 @@
+import { z } from 'zod';
+import {
+  OpenAIProvider,
+  ProviderMessage,
+  ProviderStreamChunk,
+  ToolDefinition,
+  logger,
+  LogLevel,
+} from '../../src';
+import { HttpStub, sse } from '../helpers/httpStub';
+
+const lookup: ToolDefinition = {
+  name: 'lookup',
+  description: 'Look something up',
+  parameters: z.object({ q: z.string() }),
+};
+
+const completion = (
+  message: Record<string, unknown>,
+  finishReason = 'stop',
+  usage?: Record<string, unknown>
+) => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 0,
+  model: 'gpt-4o',
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant', content: null, ...message },
+      finish_reason: finishReason,
+    },
+  ],
+  usage: usage ?? { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+});
+
+const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) => ({
+  id: 'chatcmpl-2',
+  object: 'chat.completion.chunk',
+  created: 0,
+  model: 'gpt-4o',
+  choices: [{ index: 0, delta, finish_reason: finishReason }],
+});
+
+describe('OpenAIProvider', () => {
+  let stub: HttpStub;
+  let provider: OpenAIProvider;
+
+  beforeAll(async () => {
+    logger.setLevel(LogLevel.NONE);
+    stub = await HttpStub.start();
+    provider = new OpenAIProvider({
+      type: 'openai',
+      apiKey: 'test-key',
+      model: 'gpt-4o',
+      baseURL: `${stub.url}/v1`,
+      maxTokens: 256,
+      retry: { initialDelayMs: 1, jitter: false },
+    });
+  });
+
+  afterEach(() => stub.reset());
+
+  afterAll(async () => {
+    await stub.close();
+    logger.setLevel(LogLevel.INFO);
+  });
+
+  it('converts messages, attachments, tool calls and tool results to the chat completions format', async () => {
+    stub.reply({ body: completion({ content: 'Done' }) });
+
+    const messages: ProviderMessage[] = [
+      { role: 'system', content: 'Be brief' },
+      {
+        role: 'user',
+        content: 'Look at this',
+        parts: [
+          {
+            type: 'image',
+            source: { type: 'base64', mediaType: 'image/png', data: 'iVBORw0KGgo=' },
+          },
+        ],
+      },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"a"}' } },
+        ],
+      },
+      { role: 'tool', content: 'A', toolCallId: 'call_1' },
+    ];
+    await provider.chat(messages, [lookup]);
+
+    const [request] = stub.requests;
+    expect(request.path).toBe('/v1/chat/completions');
+    expect(request.headers.authorization).toBe('Bearer test-key');
+    expect(request.body.messages).toEqual([
+      { role: 'system', content: 'Be brief' },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Look at this' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+        ],
+      },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          { id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"a"}' } },
+        ],
+      },
+      { role: 'tool', content: 'A', tool_call_id: 'call_1' },
+    ]);
+    expect(request.body.tools).toEqual([
+      {
+        type: 'function',
+        function: expect.objectContaining({
+          name: 'lookup',
+          description: 'Look something up',
+          parameters: expect.objectContaining({ type: 'object' }),
+        }),
+      },
+    ]);
+    expect(request.body.tool_choice).toBeUndefined();
+    // Compatible servers get max_tokens
+    expect(request.body.max_tokens).toBe(256);
+    expect(request.body.max_completion_tokens).toBeUndefined();
+  });
+
+  it('converts tool calls and usage from the response', async () => {
+    stub.reply({
+      body: completion(
+        {
+          content: null,
+          tool_calls: [
+            { id: 'call_2', type: 'function', function: { name: 'lookup', arguments: '' } },
+          ],
+        },
+        'tool_calls',
+        {
+          prompt_tokens: 10,
+          completion_tokens: 5,
+          total_tokens: 15,
+          prompt_tokens_details: { cached_tokens: 4 },
+        }
+      ),
+    });
+
+    const response = await provider.chat([{ role: 'user', content: 'Find it' }], [lookup]);
+
+    expect(response).toMatchObject({
+      content: '',
+      // Empty arguments from compatible servers become an empty object
+      toolCalls: [
+        { id: 'call_2', type: 'function', function: { name: 'lookup', arguments: '{}' } },
+      ],
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15, cachedTokens: 4 },
+      finishReason: 'tool_calls',
+    });
+  });
+
+  it('sends structured output, tool choice and the configured max tokens field', async () => {
+    const reasoningProvider = new OpenAIProvider({
+      type: 'openai',
+      apiKey: 'test-key',
+      model: 'o3',
+      baseURL: `${stub.url}/v1`,
+      maxTokens: 256,
+      maxTokensParam: 'max_completion_tokens',
+    });
+    stub.reply({ body: completion({ content: '{"answer":4}' }) });
+
+    const schema = {
+      type: 'object',
+      properties: { answer: { type: 'number' } },
+      required: ['answer'],
+    };
+    const response = await reasoningProvider.chat([{ role: 'user', content: '2 + 2?' }], [lookup], {
+      responseFormat: { type: 'json_schema', name: 'final_answer', schema },
+      toolChoice: 'none',
+    });
+
+    const { body } = stub.requests[0];
+    expect(body.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'final_answer', schema },
+    });
+    expect(body.tool_choice).toBe('none');
+    expect(body.max_completion_tokens).toBe(256);
+    expect(body.max_tokens).toBeUndefined();
+    expect(response.content).toBe('{"answer":4}');
+  });
+
+  it('does not send tool_choice without tools', async () => {
+    stub.reply({ body: completion({ content: 'Hi' }) });
+
+    await provider.chat([{ role: 'user', content: 'Hi' }], undefined, { toolChoice: 'none' });
+
+    expect(stub.requests[0].body.tool_choice).toBeUndefined();
+  });
+
+  it('retries rate limited requests and fails fast on authentication errors', async () => {
+    stub.reply(
+      {
+        status: 429,
+        headers: { 'retry-after-ms': '1' },
+        body: { error: { message: 'Rate limited', type: 'rate_limit_error' } },
+      },
+      { body: completion({ content: 'Recovered' }) }
+    );
+    const response = await provider.chat([{ role: 'user', content: 'Hi' }]);
+    expect(response.content).toBe('Recovered');
+    expect(response.retries).toBe(1);
+
+    stub.reset();
+    stub.reply({
+      status: 401,
+      body: { error: { message: 'Invalid API key', type: 'invalid_request_error' } },
+    });
+    await expect(provider.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+      'Invalid API key'
+    );
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('streams text and assembles tool call fragments', async () => {
+    stub.reply({
+      body: sse([
+        { data: chunk({ role: 'assistant', content: 'Let me ' }) },
+        { data: chunk({ content: 'check' }) },
+        {
+          data: chunk({
+            tool_calls: [
+              {
+                index: 0,
+                id: 'call_3',
+                type: 'function',
+                function: { name: 'lookup', arguments: '{"q":' },
+              },
+            ],
+          }),
+        },
+        { data: chunk({ tool_calls: [{ index: 0, function: { arguments: '"d"}' } }] }) },
+        { data: chunk({}, 'tool_calls') },
+        {
+          data: {
+            ...chunk({}),
+            choices: [],
+            usage: { prompt_tokens: 10, completion_tokens: 7, total_tokens: 17 },
+          },
+        },
+        { data: '[DONE]' },
+      ]),
+    });
+
+    const chunks: ProviderStreamChunk[] = [];
+    for await (const streamed of provider.chatStream(
+      [{ role: 'user', content: 'Find d' }],
+      [lookup]
+    )) {
+      chunks.push(streamed);
+    }
+
+    expect(stub.requests[0].body).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    expect(
+      chunks
+        .filter(streamed => streamed.type === 'text')
+        .map(streamed => (streamed as { delta: string }).delta)
+    ).toEqual(['Let me ', 'check']);
+    const done = chunks[chunks.length - 1];
+    expect(done.type === 'done' && done.response).toMatchObject({
+      content: 'Let me check',
+      toolCalls: [
+        { id: 'call_3', type: 'function', function: { name: 'lookup', arguments: '{"q":"d"}' } },
+      ],
+      usage: { promptTokens: 10, completionTokens: 7, totalTokens: 17 },
+      finishReason: 'tool_calls',
+    });
+  });
+});
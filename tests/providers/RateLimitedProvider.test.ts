@@ -0,0 +1,57 @@
+import { createProvider, IRateLimiter, ProviderScript } from '../../src';
+
+describe('RateLimitedProvider', () => {
+  const recorder = () => {
+    const calls: Array<{ key: string; tokens: number }> = [];
+    const adjustments: number[] = [];
+    const backend: IRateLimiter = {
+      acquire: async (key, _limits, tokens) => {
+        calls.push({ key, tokens });
+      },
+      adjust: async (_key, tokens) => {
+        adjustments.push(tokens);
+      },
+      close: async () => {},
+    };
+    return { backend, calls, adjustments };
+  };
+
+  const provider = (apiKey: string, backend: IRateLimiter, totalTokens = 10) =>
+    createProvider({
+      type: 'scripted',
+      apiKey,
+      model: 'scripted',
+      maxTokens: 100,
+      script: new ProviderScript([
+        {
+          response: {
+            content: 'Hi',
+            usage: { promptTokens: totalTokens, completionTokens: 0, totalTokens },
+          },
+        },
+      ]),
+      rateLimit: { tokensPerMinute: 10_000, backend },
+    });
+
+  it('shares one budget between providers using the same API key', async () => {
+    const { backend, calls } = recorder();
+
+    await provider('key-a', backend).chat([{ role: 'user', content: 'Hi' }]);
+    await provider('key-a', backend).chat([{ role: 'user', content: 'Hi' }]);
+    await provider('key-b', backend).chat([{ role: 'user', content: 'Hi' }]);
+
+    expect(calls[0].key).toMatch(/^scripted:[0-9a-f]{16}$/);
+    expect(calls[1].key).toBe(calls[0].key);
+    expect(calls[2].key).not.toBe(calls[0].key);
+    expect(JSON.stringify(calls)).not.toContain('key-a');
+  });
+
+  it('reserves the prompt and completion limit, then corrects it from the usage', async () => {
+    const { backend, calls, adjustments } = recorder();
+
+    await provider('key-a', backend, 30).chat([{ role: 'user', content: 'Hi' }]);
+
+    expect(calls[0].tokens).toBeGreaterThan(100);
+    expect(adjustments).toEqual([30 - calls[0].tokens]);
+  });
+});
@@ -0,0 +1,61 @@
+import { ProviderScript, ScriptedProvider } from '../../src';
+
+const scripted = (script: ProviderScript, mode?: 'sequential' | 'match') =>
+  new ScriptedProvider({ type: 'scripted', apiKey: '', model: 'scripted', script, mode });
+
+describe('ScriptedProvider', () => {
+  it('replays turns in order with stable tool call ids and records the requests', async () => {
+    const script = new ProviderScript([
+      { response: { toolCalls: [{ name: 'lookup', arguments: { q: 'a' } }] } },
+      { response: messages => ({ content: `got ${messages[messages.length - 1].content}` }) },
+    ]);
+    const provider = scripted(script);
+
+    const first = await provider.chat([{ role: 'user', content: 'Find a' }]);
+    expect(first).toMatchObject({
+      content: '',
+      toolCalls: [
+        { id: 'call_1_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"a"}' } },
+      ],
+      finishReason: 'tool_calls',
+    });
+
+    const second = await provider.chat([{ role: 'tool', content: 'A', toolCallId: 'call_1_1' }]);
+    expect(second).toMatchObject({ content: 'got A', finishReason: 'stop' });
+    expect(script.calls.map(call => call.messages[0].content)).toEqual(['Find a', 'A']);
+    script.assertConsumed();
+  });
+
+  it('picks the first matching turn in match mode', async () => {
+    const script = new ProviderScript([
+      { match: messages => messages[0].content === 'b', response: { content: 'B' } },
+      { response: { content: 'anything' } },
+    ]);
+    const provider = scripted(script, 'match');
+
+    expect((await provider.chat([{ role: 'user', content: 'a' }])).content).toBe('anything');
+    expect((await provider.chat([{ role: 'user', content: 'b' }])).content).toBe('B');
+  });
+
+  it('fails loudly when the conversation diverges from the script', async () => {
+    const script = new ProviderScript([
+      { match: messages => messages[0].content === 'expected', response: { content: 'ok' } },
+      { error: new Error('provider down') },
+    ]);
+    const provider = scripted(script);
+
+    await expect(provider.chat([{ role: 'user', content: 'unexpected' }])).rejects.toThrow(
+      'Scripted provider call #1 did not match turn #1'
+    );
+    expect(() => script.assertConsumed()).toThrow('2 unconsumed turn(s): #1, #2');
+  });
+
+  it('throws scripted errors and reports an exhausted script', async () => {
+    const provider = scripted(new ProviderScript([{ error: new Error('provider down') }]));
+
+    await expect(provider.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow('provider down');
+    await expect(provider.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+      'all 1 scripted turns were already consumed'
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { InMemoryRateLimiter } from '../../src';
+import { rateLimitDelay } from '../../src/ratelimit/BaseRateLimiter';
+
+describe('rateLimitDelay', () => {
+  it('waits for the oldest counted entry to leave the window', () => {
+    const entries = [
+      { at: 0, requests: 1, tokens: 400 },
+      { at: 10_000, requests: 1, tokens: 400 },
+    ];
+
+    expect(rateLimitDelay(entries, { requestsPerMinute: 3 }, 0, 20_000)).toBe(0);
+    expect(rateLimitDelay(entries, { requestsPerMinute: 2 }, 0, 20_000)).toBe(40_000);
+    expect(rateLimitDelay(entries, { tokensPerMinute: 1000 }, 200, 20_000)).toBe(0);
+    expect(rateLimitDelay(entries, { tokensPerMinute: 1000 }, 300, 20_000)).toBe(40_000);
+    expect(rateLimitDelay(entries, { tokensPerMinute: 1000 }, 700, 20_000)).toBe(50_000);
+  });
+
+  it('lets a call larger than the token limit through once the window is empty', () => {
+    expect(rateLimitDelay([], { tokensPerMinute: 1000 }, 5000, 0)).toBe(0);
+  });
+});
+
+describe('InMemoryRateLimiter', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('admits waiting calls in arrival order as the window frees up', async () => {
+    const limiter = new InMemoryRateLimiter({ type: 'in-memory' });
+    const admitted: string[] = [];
+    const acquire = (name: string) =>
+      limiter.acquire('account', { requestsPerMinute: 1 }, 0).then(() => admitted.push(name));
+
+    const calls = [acquire('first'), acquire('second'), acquire('third')];
+    await jest.advanceTimersByTimeAsync(0);
+    expect(admitted).toEqual(['first']);
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(admitted).toEqual(['first', 'second']);
+    await jest.advanceTimersByTimeAsync(60_000);
+    await Promise.all(calls);
+    expect(admitted).toEqual(['first', 'second', 'third']);
+
+    // Other accounts have their own limits
+    await limiter.acquire('other', { requestsPerMinute: 1 }, 0);
+  });
+
+  it('stops waiting when the call is aborted', async () => {
+    const limiter = new InMemoryRateLimiter({ type: 'in-memory' });
+    await limiter.acquire('account', { requestsPerMinute: 1 }, 0);
+
+    const controller = new AbortController();
+    const waiting = limiter.acquire('account', { requestsPerMinute: 1 }, 0, controller.signal);
+    controller.abort(new Error('user left'));
+    await expect(waiting).rejects.toThrow('user left');
+
+    // The aborted call does not hold up the queue
+    const next = limiter.acquire('account', { requestsPerMinute: 1 }, 0);
+    await jest.advanceTimersByTimeAsync(60_000);
+    await expect(next).resolves.toBeUndefined();
+  });
+});
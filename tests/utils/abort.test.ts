@@ -0,0 +1,47 @@
+import { abortReason, createExecutionSignal, raceAbort, sleep } from '../../src/utils/abort';
+
+const aborted = (reason?: unknown) => {
+  const controller = new AbortController();
+  controller.abort(reason);
+  return controller.signal;
+};
+
+describe('abort helpers', () => {
+  it('describes abort reasons, including errors from another realm', () => {
+    expect(abortReason(aborted(new Error('user left')))).toBe('user left');
+    // A DOMException or Error created in another realm fails instanceof Error
+    expect(abortReason(aborted({ name: 'TimeoutError', message: 'took too long' }))).toBe(
+      'took too long'
+    );
+    expect(abortReason(aborted('tab closed'))).toBe('tab closed');
+    expect(abortReason(aborted(42))).toBe('Execution cancelled');
+  });
+
+  it('aborts the execution signal when the timeout runs out or the caller aborts', async () => {
+    const timed = createExecutionSignal(undefined, 10);
+    await expect(sleep(1000, timed.signal)).rejects.toMatchObject({ name: 'TimeoutError' });
+    expect(abortReason(timed.signal!)).toBe('Execution timed out after 10ms');
+    timed.dispose();
+
+    const caller = new AbortController();
+    const combined = createExecutionSignal(caller.signal, 1000);
+    caller.abort(new Error('stopped'));
+    expect(combined.signal?.aborted).toBe(true);
+    expect(abortReason(combined.signal!)).toBe('stopped');
+    combined.dispose();
+
+    // Without a timeout the caller's signal is used as is
+    expect(createExecutionSignal(caller.signal).signal).toBe(caller.signal);
+  });
+
+  it('stops waiting for work that ignores the signal', async () => {
+    const controller = new AbortController();
+    const never = new Promise(() => {});
+    const waiting = raceAbort(never, controller.signal);
+    controller.abort(new Error('stopped'));
+
+    await expect(waiting).rejects.toThrow('stopped');
+    await expect(raceAbort(Promise.resolve('done'), controller.signal)).rejects.toThrow('stopped');
+    await expect(raceAbort(Promise.resolve('done'))).resolves.toBe('done');
+  });
+});
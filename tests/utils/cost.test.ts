@@ -0,0 +1,98 @@
+import {
+  calculateCost,
+  createCostReport,
+  mergeCostReport,
+  recordCost,
+  recordProviderCost,
+} from '../../src/utils/cost';
+import { getModelPricing, registerModelPricing } from '../../src/providers/ModelCapabilities';
+import { ScriptedProvider, logger, LogLevel } from '../../src';
+
+const usage = (promptTokens: number, completionTokens: number, cachedTokens?: number) => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+  cachedTokens,
+});
+
+const provider = (model: string) =>
+  new ScriptedProvider({ type: 'scripted', apiKey: '', model, script: [] });
+
+describe('calculateCost', () => {
+  it('charges prompt, cached prompt and completion tokens at their prices', () => {
+    const pricing = { input: 2, output: 8, cachedInput: 0.5 };
+    expect(calculateCost(usage(1_000_000, 500_000), pricing)).toBe(6);
+    expect(calculateCost(usage(1_000_000, 0, 400_000), pricing)).toBeCloseTo(1.4);
+    expect(calculateCost(usage(1_000_000, 0, 400_000), { input: 2, output: 8 })).toBe(2);
+  });
+});
+
+describe('model pricing', () => {
+  it('resolves dated snapshots and vendor prefixes to their model family', () => {
+    expect(getModelPricing('gpt-4o-2024-08-06')).toEqual(getModelPricing('gpt-4o'));
+    expect(getModelPricing('openai/gpt-4o')).toEqual(getModelPricing('gpt-4o'));
+    expect(getModelPricing('claude-sonnet-4-20250514')).toEqual(getModelPricing('claude-sonnet-4'));
+  });
+
+  it('does not price size variants as the base model', () => {
+    expect(getModelPricing('gpt-5-mini')).toMatchObject({ input: 0.25, output: 2 });
+    expect(getModelPricing('gpt-4.1-nano-2025-04-14')).toMatchObject({ input: 0.1 });
+    expect(getModelPricing('gemini-2.5-flash-lite')).toMatchObject({ input: 0.1 });
+    expect(getModelPricing('o3-pro')).toBeUndefined();
+    expect(getModelPricing('unknown-model')).toBeUndefined();
+  });
+
+  it('prefers registered prices over the built-in table', () => {
+    registerModelPricing('cost-test-model', { input: 3, output: 4 });
+    expect(getModelPricing('cost-test-model-v2')).toEqual({ input: 3, output: 4 });
+  });
+});
+
+describe('cost reports', () => {
+  beforeAll(() => logger.setLevel(LogLevel.NONE));
+  afterAll(() => logger.setLevel(LogLevel.INFO));
+
+  it('charges responses to the model that served them', () => {
+    const report = createCostReport();
+    recordCost(report, 'writer', provider('gpt-4o'), {
+      content: '',
+      finishReason: 'stop',
+      usage: usage(1_000_000, 0),
+      servedBy: { type: 'openai', model: 'gpt-4o-mini' },
+    });
+
+    expect(report.total).toBeCloseTo(0.15);
+    expect(report.byModel).toEqual({ 'openai/gpt-4o-mini': expect.closeTo(0.15) });
+    expect(report.byAgent).toEqual({ writer: expect.closeTo(0.15) });
+  });
+
+  it('does not charge cached responses and counts unpriced calls', () => {
+    const report = createCostReport();
+    recordCost(report, 'writer', provider('gpt-4o'), {
+      content: '',
+      finishReason: 'stop',
+      usage: usage(1_000_000, 0),
+      cached: true,
+    });
+    recordProviderCost(report, 'writer', provider('unknown-model'), usage(10, 10));
+
+    expect(report.total).toBe(0);
+    expect(report.unpricedCalls).toBe(1);
+  });
+
+  it('merges reports by agent and model', () => {
+    const manager = createCostReport();
+    recordProviderCost(manager, 'manager', provider('gpt-4o'), usage(1_000_000, 0));
+    const worker = createCostReport();
+    recordProviderCost(worker, 'worker', provider('gpt-4o'), usage(0, 1_000_000));
+
+    mergeCostReport(manager, worker);
+
+    expect(manager).toEqual({
+      total: 12.5,
+      byAgent: { manager: 2.5, worker: 10 },
+      byModel: { 'scripted/gpt-4o': 12.5 },
+      unpricedCalls: 0,
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describePart, inferMediaType, readAttachment, toDataUrl } from '../../src/utils/media';
+
+describe('media helpers', () => {
+  let dir: string;
+
+  beforeAll(() => (dir = mkdtempSync(join(tmpdir(), 'media-'))));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('infers media types from file names and URLs', () => {
+    expect(inferMediaType('photo.JPG')).toBe('image/jpeg');
+    expect(inferMediaType('https://example.com/report.pdf?download=1')).toBe('application/pdf');
+    expect(inferMediaType('archive.zip')).toBeUndefined();
+  });
+
+  it('reads images and files into content parts', async () => {
+    writeFileSync(join(dir, 'pixel.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    writeFileSync(join(dir, 'notes.txt'), 'hello');
+
+    const image = await readAttachment(join(dir, 'pixel.png'));
+    expect(image).toEqual({
+      type: 'image',
+      name: 'pixel.png',
+      source: { type: 'base64', mediaType: 'image/png', data: 'iVBORw==' },
+    });
+
+    const file = await readAttachment(join(dir, 'notes.txt'));
+    expect(file).toMatchObject({
+      type: 'file',
+      name: 'notes.txt',
+      source: { mediaType: 'text/plain', data: Buffer.from('hello').toString('base64') },
+    });
+  });
+
+  it('expresses sources as URLs and describes parts', () => {
+    const source = { type: 'base64' as const, mediaType: 'image/png', data: 'iVBORw==' };
+    expect(toDataUrl(source)).toBe('data:image/png;base64,iVBORw==');
+    expect(toDataUrl({ type: 'url', url: 'https://example.com/a.png' })).toBe(
+      'https://example.com/a.png'
+    );
+
+    expect(describePart({ type: 'image', source, name: 'pixel.png' })).toBe(
+      '[image pixel.png (image/png)]'
+    );
+    expect(
+      describePart({ type: 'file', source: { type: 'url', url: 'https://x.dev/a.pdf' } })
+    ).toBe('[file (application/pdf)]');
+  });
+});
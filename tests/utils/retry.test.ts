@@ -0,0 +1,141 @@
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { getRetryAfterMs, isRetryableError, retryWithBackoff } from '../../src/utils/retry';
+import { logger, LogLevel } from '../../src';
+
+const httpError = (status: number, headers?: Record<string, string>) =>
+  Object.assign(new Error(`HTTP ${status}`), { status, headers });
+
+describe('isRetryableError', () => {
+  it('retries rate limits and server errors but not client errors', () => {
+    for (const status of [408, 429, 500, 502, 503, 529]) {
+      expect(isRetryableError(httpError(status))).toBe(true);
+    }
+    for (const status of [400, 401, 403, 404, 422]) {
+      expect(isRetryableError(httpError(status))).toBe(false);
+    }
+  });
+
+  it('honors custom retryable status codes', () => {
+    expect(isRetryableError(httpError(418), [418])).toBe(true);
+    expect(isRetryableError(httpError(429), [418])).toBe(false);
+  });
+
+  it('retries SDK connection errors and timeouts', () => {
+    expect(isRetryableError(new OpenAI.APIConnectionError({ message: 'Connection error.' }))).toBe(
+      true
+    );
+    expect(isRetryableError(new OpenAI.APIConnectionTimeoutError())).toBe(true);
+    expect(
+      isRetryableError(new Anthropic.APIConnectionError({ message: 'Connection error.' }))
+    ).toBe(true);
+    expect(isRetryableError(new Anthropic.APIConnectionTimeoutError())).toBe(true);
+  });
+
+  it('does not retry aborted requests', () => {
+    expect(isRetryableError(new OpenAI.APIUserAbortError())).toBe(false);
+    expect(isRetryableError(new Anthropic.APIUserAbortError())).toBe(false);
+  });
+
+  it('finds network error codes anywhere in the cause chain', () => {
+    const withCause = (error: Error, cause: unknown) => Object.assign(error, { cause });
+    const socketError = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+    const fetchError = withCause(new TypeError('request failed'), socketError);
+    expect(isRetryableError(withCause(new Error('wrapped'), fetchError))).toBe(true);
+    expect(isRetryableError(withCause(new Error('wrapped'), new Error('invalid key')))).toBe(false);
+  });
+
+  it('retries undici and Gemini fetch failures', () => {
+    expect(isRetryableError(new TypeError('fetch failed'))).toBe(true);
+    expect(
+      isRetryableError(
+        new Error(
+          '[GoogleGenerativeAI Error]: Error fetching from https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent: fetch failed'
+        )
+      )
+    ).toBe(true);
+  });
+
+  it('does not retry other errors', () => {
+    expect(isRetryableError(new Error('Unexpected token in JSON'))).toBe(false);
+    expect(isRetryableError(undefined)).toBe(false);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  it('reads Retry-After headers in milliseconds or seconds', () => {
+    expect(getRetryAfterMs(httpError(429, { 'retry-after-ms': '250' }))).toBe(250);
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': '2' }))).toBe(2000);
+    expect(getRetryAfterMs({ headers: new Headers({ 'retry-after': '3' }) })).toBe(3000);
+  });
+
+  it('reads Gemini RetryInfo details', () => {
+    expect(
+      getRetryAfterMs({
+        errorDetails: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '1.5s' }],
+      })
+    ).toBe(1500);
+  });
+
+  it('returns undefined without a hint', () => {
+    expect(getRetryAfterMs(httpError(500))).toBeUndefined();
+  });
+});
+
+describe('retryWithBackoff', () => {
+  beforeAll(() => logger.setLevel(LogLevel.NONE));
+  afterAll(() => logger.setLevel(LogLevel.INFO));
+
+  it('retries retryable failures and reports the retries', async () => {
+    let attempts = 0;
+    const outcome = await retryWithBackoff(
+      async () => {
+        if (++attempts < 3) throw httpError(503);
+        return 'ok';
+      },
+      { initialDelayMs: 1, jitter: false }
+    );
+
+    expect(outcome).toEqual({ value: 'ok', retries: 2 });
+  });
+
+  it('gives up on fatal errors and after the last attempt', async () => {
+    let attempts = 0;
+    await expect(
+      retryWithBackoff(
+        async () => {
+          attempts++;
+          throw httpError(401);
+        },
+        { initialDelayMs: 1 }
+      )
+    ).rejects.toThrow('HTTP 401');
+    expect(attempts).toBe(1);
+
+    attempts = 0;
+    await expect(
+      retryWithBackoff(
+        async () => {
+          attempts++;
+          throw httpError(500);
+        },
+        { maxAttempts: 2, initialDelayMs: 1 }
+      )
+    ).rejects.toThrow('HTTP 500');
+    expect(attempts).toBe(2);
+  });
+
+  it('gives up when the provider asks to wait longer than maxDelayMs', async () => {
+    let attempts = 0;
+    await expect(
+      retryWithBackoff(
+        async () => {
+          attempts++;
+          throw httpError(429, { 'retry-after': '60' });
+        },
+        { maxDelayMs: 1000 }
+      )
+    ).rejects.toThrow('HTTP 429');
+    expect(attempts).toBe(1);
+  });
+});
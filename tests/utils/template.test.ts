@@ -0,0 +1,22 @@
+import { renderPrompt } from '../../src/utils/template';
+
+describe('renderPrompt', () => {
+  const input = { ticker: 'ACME', period: 'Q3', filters: { region: 'EU', segments: ['retail'] } };
+
+  it('renders input as key: value lines without a template', () => {
+    expect(renderPrompt({ ticker: 'ACME', years: 2 })).toBe('ticker: "ACME"\nyears: 2');
+  });
+
+  it('fills placeholders, reaching nested values by dot path', () => {
+    expect(renderPrompt(input, 'Report on {{ ticker }} for {{period}} in {{filters.region}}')).toBe(
+      'Report on ACME for Q3 in EU'
+    );
+    expect(renderPrompt(input, 'Segments: {{filters.segments}}; notes: {{notes}}')).toBe(
+      'Segments: ["retail"]; notes: '
+    );
+  });
+
+  it('calls function templates with the input', () => {
+    expect(renderPrompt(input, ({ ticker, period }) => `${ticker} ${period}`)).toBe('ACME Q3');
+  });
+});